@@ -3,24 +3,35 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { FirebaseProvider } from "@/components/FirebaseProvider";
+import { CredentialUnlockDialog } from "@/components/CredentialUnlockDialog";
 import Index from "./pages/Index";
+import Records from "./pages/Records";
+import RecordDetail from "./pages/RecordDetail";
+import PatientDetail from "./pages/PatientDetail";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <FirebaseProvider>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <CredentialUnlockDialog />
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/records" element={<Records />} />
+            <Route path="/records/:id" element={<RecordDetail />} />
+            <Route path="/patients/:id" element={<PatientDetail />} />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </FirebaseProvider>
   </QueryClientProvider>
 );
 
@@ -0,0 +1,60 @@
+import React from 'react';
+import { AlertTriangle, Check, Circle, Loader2, Minus, X } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  CONNECTION_ERRORS,
+  CONNECTION_STEP_LABELS,
+  ConnectionStepResult,
+  ConnectionStepStatus
+} from '@/lib/connectionTest';
+
+interface ConnectionChecklistProps {
+  steps: ConnectionStepResult[];
+}
+
+const STATUS_ICONS: Record<ConnectionStepStatus, React.ReactNode> = {
+  pending: <Circle className="h-4 w-4 text-muted-foreground" />,
+  running: <Loader2 className="h-4 w-4 animate-spin text-primary" />,
+  success: <Check className="h-4 w-4 text-success" />,
+  error: <X className="h-4 w-4 text-destructive" />,
+  skipped: <Minus className="h-4 w-4 text-muted-foreground" />
+};
+
+/** Steps of a connection test, with what went wrong and how to fix it. */
+export const ConnectionChecklist: React.FC<ConnectionChecklistProps> = ({ steps }) => {
+  const failed = steps.find(step => step.status === 'error');
+  const failure = failed && CONNECTION_ERRORS[failed.error ?? 'unknown'];
+
+  return (
+    <div className="space-y-3">
+      <ul className="space-y-2">
+        {steps.map(({ step, status, durationMs }) => (
+          <li key={step} className="flex items-center space-x-2 text-sm">
+            {STATUS_ICONS[status]}
+            <span className={status === 'skipped' || status === 'pending' ? 'text-muted-foreground' : 'text-foreground'}>
+              {CONNECTION_STEP_LABELS[step]}
+            </span>
+            {durationMs !== undefined && (
+              <span className="text-xs tabular-nums text-muted-foreground">{durationMs} ms</span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {failure && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>
+            {CONNECTION_STEP_LABELS[failed.step]}: {failure.title}
+          </AlertTitle>
+          <AlertDescription className="space-y-1">
+            <p>{failure.hint}</p>
+            {failed.message && (
+              <p className="text-xs opacity-80 break-all">{failed.message}</p>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+};
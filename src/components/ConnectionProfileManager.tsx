@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { Copy, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useFirebase } from '@/hooks/use-firebase';
+import { describeProfile } from '@/lib/connectionProfiles';
+
+type NameAction = 'create' | 'duplicate' | 'rename';
+
+const NAME_DIALOGS: Record<NameAction, { title: string; description: string; confirm: string }> = {
+  create: {
+    title: 'Novo perfil',
+    description: 'O perfil começa com as configurações padrão e fica ativo ao ser criado.',
+    confirm: 'Criar'
+  },
+  duplicate: {
+    title: 'Duplicar perfil',
+    description: 'O novo perfil copia as configurações do perfil atual.',
+    confirm: 'Duplicar'
+  },
+  rename: {
+    title: 'Renomear perfil',
+    description: 'O nome aparece no seletor de perfis do cabeçalho.',
+    confirm: 'Salvar'
+  }
+};
+
+/** Picks the active connection profile and creates, duplicates, renames or deletes profiles. */
+export const ConnectionProfileManager: React.FC = () => {
+  const { profiles, activeProfile, switchProfile, createProfile, renameProfile, deleteProfile, isLocked } = useFirebase();
+  const [nameAction, setNameAction] = useState<NameAction | null>(null);
+  const [name, setName] = useState('');
+
+  const openNameDialog = (action: NameAction) => {
+    setName(
+      action === 'rename' ? activeProfile.name
+        : action === 'duplicate' ? `${activeProfile.name} (cópia)`
+          : ''
+    );
+    setNameAction(action);
+  };
+
+  const handleNameConfirm = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    if (nameAction === 'rename') {
+      renameProfile(activeProfile.id, trimmed);
+    } else {
+      createProfile(trimmed, nameAction === 'duplicate' ? activeProfile.id : undefined);
+    }
+    setNameAction(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="activeProfile">Perfil de conexão</Label>
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <Select value={activeProfile?.id ?? ''} onValueChange={switchProfile} disabled={profiles.length === 0}>
+          <SelectTrigger id="activeProfile" className="sm:flex-1">
+            <SelectValue placeholder="Nenhum perfil; salve as configurações para criar o primeiro" />
+          </SelectTrigger>
+          <SelectContent>
+            {profiles.map(profile => (
+              <SelectItem key={profile.id} value={profile.id}>
+                {profile.name} · {describeProfile(profile)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            title="Novo perfil"
+            disabled={isLocked}
+            onClick={() => openNameDialog('create')}
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            title="Duplicar perfil"
+            disabled={!activeProfile}
+            onClick={() => openNameDialog('duplicate')}
+          >
+            <Copy className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            title="Renomear perfil"
+            disabled={!activeProfile}
+            onClick={() => openNameDialog('rename')}
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" size="icon" title="Excluir perfil" disabled={!activeProfile}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Excluir perfil?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  As configurações do perfil "{activeProfile?.name}" serão removidas deste navegador.
+                  Os dados no Firestore não são afetados.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => deleteProfile(activeProfile.id)}
+                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                >
+                  Excluir
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </div>
+
+      <Dialog open={nameAction !== null} onOpenChange={(open) => !open && setNameAction(null)}>
+        {nameAction && (
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{NAME_DIALOGS[nameAction].title}</DialogTitle>
+              <DialogDescription>{NAME_DIALOGS[nameAction].description}</DialogDescription>
+            </DialogHeader>
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleNameConfirm();
+              }}
+            >
+              <div className="space-y-2">
+                <Label htmlFor="profileName">Nome</Label>
+                <Input
+                  id="profileName"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Produção, Homologação, Emulador..."
+                  autoFocus
+                />
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setNameAction(null)}>
+                  Cancelar
+                </Button>
+                <Button type="submit" disabled={!name.trim()}>
+                  {NAME_DIALOGS[nameAction].confirm}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        )}
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { KeyRound, Loader2, Lock } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useFirebase } from '@/hooks/use-firebase';
+import { AUTO_LOCK_OPTIONS, DEFAULT_AUTO_LOCK_MINUTES, MIN_PASSPHRASE_LENGTH } from '@/lib/profileVault';
+
+const getAutoLockLabel = (minutes: number) => (minutes === 0 ? 'Nunca' : `Após ${minutes} min sem uso`);
+
+/**
+ * Turns the passphrase lock of the saved profiles on or off. Without it the
+ * credentials stay in plain localStorage, which is meant for development.
+ */
+export const CredentialLockSettings: React.FC = () => {
+  const { toast } = useToast();
+  const {
+    isEncrypted,
+    isLocked,
+    autoLockMinutes,
+    enableEncryption,
+    disableEncryption,
+    setAutoLockMinutes,
+    lock
+  } = useFirebase();
+  const [isEnabling, setIsEnabling] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [newAutoLockMinutes, setNewAutoLockMinutes] = useState(DEFAULT_AUTO_LOCK_MINUTES);
+
+  const passphraseError = passphrase.length > 0 && passphrase.length < MIN_PASSPHRASE_LENGTH
+    ? `Use pelo menos ${MIN_PASSPHRASE_LENGTH} caracteres`
+    : confirmation.length > 0 && confirmation !== passphrase
+      ? 'As senhas não conferem'
+      : null;
+  const canEnable = passphrase.length >= MIN_PASSPHRASE_LENGTH && confirmation === passphrase;
+
+  const handleToggle = (enabled: boolean) => {
+    if (enabled) {
+      setIsEnabling(true);
+      return;
+    }
+    if (isEnabling) {
+      setIsEnabling(false);
+      return;
+    }
+
+    disableEncryption();
+    toast({
+      title: "Proteção por senha desativada",
+      description: "As credenciais voltam a ser salvas sem criptografia neste navegador.",
+      variant: "default"
+    });
+  };
+
+  const handleEnable = async () => {
+    setIsSaving(true);
+    try {
+      await enableEncryption(passphrase, newAutoLockMinutes);
+      setIsEnabling(false);
+      setPassphrase('');
+      setConfirmation('');
+      toast({
+        title: "Proteção por senha ativada",
+        description: "As credenciais são salvas criptografadas e pedirão a senha ao abrir o app.",
+        variant: "default"
+      });
+    } catch (error) {
+      console.error('Error enabling credential encryption:', error);
+      toast({
+        title: "Erro ao ativar a proteção",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="border-primary/20" style={{ boxShadow: 'var(--shadow-card)' }}>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <KeyRound className="h-5 w-5 text-primary" />
+          <span>Proteção das Credenciais</span>
+        </CardTitle>
+        <CardDescription>
+          Criptografa os perfis de conexão salvos neste navegador com uma senha (PBKDF2 e AES-GCM).
+          Recomendado em estações compartilhadas; sem senha, as credenciais ficam em texto puro, o que só serve para desenvolvimento.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="credentialLock">Proteger com senha</Label>
+          <Switch
+            id="credentialLock"
+            checked={isEncrypted || isEnabling}
+            onCheckedChange={handleToggle}
+            disabled={isLocked || isSaving}
+          />
+        </div>
+
+        {isEnabling && !isEncrypted && (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleEnable();
+            }}
+          >
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="newPassphrase">Senha</Label>
+                <Input
+                  id="newPassphrase"
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  autoComplete="new-password"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="passphraseConfirmation">Confirmar senha</Label>
+                <Input
+                  id="passphraseConfirmation"
+                  type="password"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  autoComplete="new-password"
+                />
+              </div>
+            </div>
+            {passphraseError && <p className="text-xs text-destructive">{passphraseError}</p>}
+            <div className="space-y-2">
+              <Label htmlFor="newAutoLock">Bloqueio automático</Label>
+              <Select
+                value={String(newAutoLockMinutes)}
+                onValueChange={(value) => setNewAutoLockMinutes(Number(value))}
+              >
+                <SelectTrigger id="newAutoLock" className="w-[220px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AUTO_LOCK_OPTIONS.map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>{getAutoLockLabel(minutes)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              A senha não pode ser recuperada. Se for esquecida, os perfis precisam ser apagados e configurados de novo.
+            </p>
+            <Button type="submit" disabled={!canEnable || isSaving}>
+              {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Lock className="h-4 w-4 mr-2" />}
+              Ativar proteção
+            </Button>
+          </form>
+        )}
+
+        {isEncrypted && !isLocked && (
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+            <div className="space-y-2">
+              <Label htmlFor="autoLock">Bloqueio automático</Label>
+              <Select value={String(autoLockMinutes)} onValueChange={(value) => setAutoLockMinutes(Number(value))}>
+                <SelectTrigger id="autoLock" className="w-[220px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AUTO_LOCK_OPTIONS.map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>{getAutoLockLabel(minutes)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" onClick={lock}>
+              <Lock className="h-4 w-4 mr-2" />
+              Bloquear agora
+            </Button>
+          </div>
+        )}
+
+        {isLocked && (
+          <p className="text-sm text-muted-foreground">
+            As credenciais estão bloqueadas. Desative o modo demonstração para informar a senha.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Loader2, Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useFirebase } from '@/hooks/use-firebase';
+
+/**
+ * Asks for the passphrase while the saved profiles are locked. It cannot be
+ * dismissed, except in demo mode, which needs no credentials.
+ */
+export const CredentialUnlockDialog: React.FC = () => {
+  const { isLocked, isDemo, unlock, forgetEncryptedProfiles } = useFirebase();
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [isForgetting, setIsForgetting] = useState(false);
+
+  const handleUnlock = async () => {
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await unlock(passphrase);
+      setPassphrase('');
+    } catch (unlockError) {
+      setError(unlockError instanceof Error ? unlockError.message : String(unlockError));
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleForget = () => {
+    forgetEncryptedProfiles();
+    setIsForgetting(false);
+    setPassphrase('');
+    setError(null);
+  };
+
+  return (
+    <AlertDialog open={isLocked && !isDemo}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center space-x-2">
+            <Lock className="h-5 w-5 text-primary" />
+            <span>{isForgetting ? 'Apagar credenciais protegidas?' : 'Credenciais protegidas'}</span>
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {isForgetting
+              ? 'Os perfis de conexão salvos neste navegador serão apagados e precisarão ser configurados de novo. Os dados no Firestore não são afetados.'
+              : 'Digite a senha para desbloquear os perfis de conexão salvos neste navegador.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {isForgetting ? (
+          <AlertDialogFooter>
+            <Button variant="outline" onClick={() => setIsForgetting(false)}>
+              Voltar
+            </Button>
+            <Button variant="destructive" onClick={handleForget}>
+              Apagar perfis
+            </Button>
+          </AlertDialogFooter>
+        ) : (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleUnlock();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="unlockPassphrase">Senha</Label>
+              <Input
+                id="unlockPassphrase"
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                className={error ? 'border-destructive' : undefined}
+                autoFocus
+              />
+              {error && <p className="text-xs text-destructive">{error}</p>}
+            </div>
+            <AlertDialogFooter>
+              <Button type="button" variant="ghost" onClick={() => setIsForgetting(true)}>
+                Esqueci a senha
+              </Button>
+              <Button type="submit" disabled={!passphrase || isUnlocking}>
+                {isUnlocking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Desbloquear
+              </Button>
+            </AlertDialogFooter>
+          </form>
+        )}
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
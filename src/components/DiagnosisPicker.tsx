@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Check, ChevronsUpDown, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  CERTAINTY_LABELS,
+  DiagnosisCertainty,
+  DiagnosisCode,
+  ECG_STATEMENTS,
+  getStatement,
+  STATEMENT_CATEGORY_LABELS,
+  StatementCategory,
+  toDiagnosisCode
+} from '@/lib/ecgStatements';
+
+interface DiagnosisPickerProps {
+  value: DiagnosisCode[];
+  /** Omit to show the codes read-only */
+  onChange?: (value: DiagnosisCode[]) => void;
+}
+
+export const DiagnosisPicker: React.FC<DiagnosisPickerProps> = ({ value, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const selected = new Set(value.map(diagnosis => diagnosis.code));
+
+  const toggle = (code: string) => {
+    if (selected.has(code)) {
+      onChange(value.filter(diagnosis => diagnosis.code !== code));
+    } else {
+      onChange([...value, toDiagnosisCode(getStatement(code))]);
+    }
+  };
+
+  const setCertainty = (code: string, certainty: DiagnosisCertainty) => {
+    onChange(value.map(diagnosis => (diagnosis.code === code ? { ...diagnosis, certainty } : diagnosis)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {onChange && (
+        <Popover open={open} onOpenChange={setOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="outline" role="combobox" aria-expanded={open} className="w-full justify-between font-normal">
+              <span className="text-muted-foreground">Buscar diagnóstico por nome, código SCP-ECG ou SNOMED CT...</span>
+              <ChevronsUpDown className="h-4 w-4 shrink-0 opacity-50" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+            <Command>
+              <CommandInput placeholder="Buscar diagnóstico..." />
+              <CommandList>
+                <CommandEmpty>Nenhum diagnóstico encontrado.</CommandEmpty>
+                {(Object.keys(STATEMENT_CATEGORY_LABELS) as StatementCategory[]).map(category => (
+                  <CommandGroup key={category} heading={STATEMENT_CATEGORY_LABELS[category]}>
+                    {ECG_STATEMENTS.filter(statement => statement.category === category).map(statement => (
+                      <CommandItem
+                        key={statement.code}
+                        value={`${statement.code} ${statement.description} ${statement.snomedCt ?? ''}`}
+                        onSelect={() => toggle(statement.code)}
+                      >
+                        <Check className={`mr-2 h-4 w-4 ${selected.has(statement.code) ? 'opacity-100' : 'opacity-0'}`} />
+                        <span className="flex-1">{statement.description}</span>
+                        <span className="ml-2 text-xs text-muted-foreground">{statement.code}</span>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                ))}
+              </CommandList>
+            </Command>
+          </PopoverContent>
+        </Popover>
+      )}
+
+      {value.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Nenhum diagnóstico codificado.</p>
+      ) : (
+        <ul className="space-y-2">
+          {value.map(diagnosis => {
+            const statement = getStatement(diagnosis.code);
+            return (
+              <li key={diagnosis.code} className="flex flex-wrap items-center gap-2 rounded border px-3 py-2">
+                <div className="flex-1 min-w-[180px]">
+                  <p className="text-sm text-foreground">{statement?.description ?? diagnosis.code}</p>
+                  <p className="text-xs text-muted-foreground">
+                    SCP-ECG {diagnosis.code}
+                    {diagnosis.snomedCt && ` · SNOMED CT ${diagnosis.snomedCt}`}
+                  </p>
+                </div>
+                {onChange ? (
+                  <>
+                    <Select
+                      value={diagnosis.certainty}
+                      onValueChange={(certainty) => setCertainty(diagnosis.code, certainty as DiagnosisCertainty)}
+                    >
+                      <SelectTrigger className="h-8 w-[120px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(CERTAINTY_LABELS) as DiagnosisCertainty[]).map(certainty => (
+                          <SelectItem key={certainty} value={certainty}>{CERTAINTY_LABELS[certainty]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      onClick={() => toggle(diagnosis.code)}
+                      aria-label={`Remover ${statement?.description ?? diagnosis.code}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <Badge variant="outline">{CERTAINTY_LABELS[diagnosis.certainty]}</Badge>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,287 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Crosshair, Ruler, Trash2, ZoomIn, ZoomOut, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  calibrateFromPoints,
+  CaliperMeasurement,
+  GAINS,
+  getCaliperAmplitude,
+  getCaliperDuration,
+  ImagePoint,
+  PageCalipers,
+  PAPER_SPEEDS
+} from '@/lib/calipers';
+
+interface EcgImageViewerProps {
+  image: string;
+  alt: string;
+  value?: PageCalipers;
+  onChange: (value: PageCalipers) => void;
+}
+
+type ViewerMode = 'view' | 'grid' | 'pulse' | 'measure';
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 6;
+const ZOOM_STEP = 1.5;
+
+const MODE_HINTS: Record<ViewerMode, string> = {
+  view: 'Use o zoom e as barras de rolagem para navegar pela imagem.',
+  grid: 'Clique em dois cantos opostos de um quadrado grande (5 mm) da grade.',
+  pulse: 'Clique na base e depois no topo do pulso de calibração de 1 mV.',
+  measure: 'Clique no início e depois no fim do intervalo a medir. Esc cancela.'
+};
+
+export const EcgImageViewer: React.FC<EcgImageViewerProps> = ({ image, alt, value, onChange }) => {
+  const contentRef = useRef<HTMLDivElement>(null);
+  const [zoom, setZoom] = useState(MIN_ZOOM);
+  const [mode, setMode] = useState<ViewerMode>('view');
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [displayWidth, setDisplayWidth] = useState(0);
+  const [pending, setPending] = useState<ImagePoint | null>(null);
+  const [hover, setHover] = useState<ImagePoint | null>(null);
+  const [paperSpeed, setPaperSpeed] = useState(value?.calibration?.paperSpeed ?? 25);
+  const [gain, setGain] = useState(value?.calibration?.gain ?? 10);
+
+  const calibration = value?.calibration ?? null;
+  const measurements = value?.measurements ?? [];
+  // Natural image pixels per rendered pixel, to keep overlay strokes and labels readable at any zoom
+  const scale = naturalSize && displayWidth ? naturalSize.width / displayWidth : 1;
+
+  useEffect(() => {
+    const content = contentRef.current;
+    if (!content) return;
+
+    const observer = new ResizeObserver(entries => {
+      setDisplayWidth(entries[0].contentRect.width);
+    });
+    observer.observe(content);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setPending(null);
+        setMode('view');
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const update = (changes: Partial<PageCalipers>) => {
+    onChange({ image, calibration, measurements, ...changes });
+  };
+
+  const toImagePoint = (e: React.MouseEvent<SVGSVGElement>): ImagePoint => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * naturalSize.width,
+      y: ((e.clientY - rect.top) / rect.height) * naturalSize.height
+    };
+  };
+
+  const startMode = (next: ViewerMode) => {
+    setPending(null);
+    setMode(prev => (prev === next ? 'view' : next));
+  };
+
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (mode === 'view' || !naturalSize) return;
+
+    const point = toImagePoint(e);
+    if (!pending) {
+      setPending(point);
+      return;
+    }
+
+    if (mode === 'measure') {
+      const measurement: CaliperMeasurement = {
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        start: pending,
+        end: point
+      };
+      update({ measurements: [...measurements, measurement] });
+    } else {
+      const next = calibrateFromPoints(mode, pending, point, paperSpeed, gain);
+      if (!next) {
+        alert('Os pontos marcados estão próximos demais. Marque a calibração novamente.');
+      } else {
+        update({ calibration: next });
+        setMode('view');
+      }
+    }
+    setPending(null);
+  };
+
+  const renderCaliper = (start: ImagePoint, end: ImagePoint, label: string, color: string) => {
+    const tick = 10 * scale;
+    return (
+      <g stroke={color} fill={color}>
+        <line x1={start.x} y1={start.y - tick} x2={start.x} y2={start.y + tick} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        <line x1={end.x} y1={end.y - tick} x2={end.x} y2={end.y + tick} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        <line
+          x1={start.x}
+          y1={start.y}
+          x2={end.x}
+          y2={end.y}
+          strokeWidth={1.5}
+          strokeDasharray="4 3"
+          vectorEffect="non-scaling-stroke"
+        />
+        {label && (
+          <text
+            x={Math.max(start.x, end.x) + 4 * scale}
+            y={Math.min(start.y, end.y) - 4 * scale}
+            fontSize={12 * scale}
+            stroke="none"
+          >
+            {label}
+          </text>
+        )}
+      </g>
+    );
+  };
+
+  const formatMeasurement = (measurement: CaliperMeasurement) => {
+    const duration = getCaliperDuration(measurement, calibration);
+    const amplitude = getCaliperAmplitude(measurement, calibration);
+    return `${Math.round(duration)} ms · ${amplitude.toFixed(2)} mV`;
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="flex items-center space-x-1">
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={() => setZoom(prev => Math.max(MIN_ZOOM, prev / ZOOM_STEP))}
+            aria-label="Diminuir zoom"
+          >
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={() => setZoom(prev => Math.min(MAX_ZOOM, prev * ZOOM_STEP))}
+            aria-label="Aumentar zoom"
+          >
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" className="h-8 w-8 p-0" onClick={() => setZoom(MIN_ZOOM)} aria-label="Ajustar à largura">
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <Button variant={mode === 'grid' ? 'default' : 'outline'} size="sm" className="h-8" onClick={() => startMode('grid')}>
+          <Crosshair className="h-4 w-4 mr-1" />
+          Calibrar: quadrado 5 mm
+        </Button>
+        <Button variant={mode === 'pulse' ? 'default' : 'outline'} size="sm" className="h-8" onClick={() => startMode('pulse')}>
+          <Crosshair className="h-4 w-4 mr-1" />
+          Calibrar: pulso 1 mV
+        </Button>
+        <Button
+          variant={mode === 'measure' ? 'default' : 'outline'}
+          size="sm"
+          className="h-8"
+          onClick={() => startMode('measure')}
+          disabled={!calibration}
+        >
+          <Ruler className="h-4 w-4 mr-1" />
+          Compasso
+        </Button>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Velocidade</Label>
+          <Select value={String(paperSpeed)} onValueChange={(speed) => setPaperSpeed(Number(speed))}>
+            <SelectTrigger className="h-8 w-[110px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAPER_SPEEDS.map(speed => (
+                <SelectItem key={speed} value={String(speed)}>{speed} mm/s</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Ganho</Label>
+          <Select value={String(gain)} onValueChange={(selected) => setGain(Number(selected))}>
+            <SelectTrigger className="h-8 w-[110px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GAINS.map(option => (
+                <SelectItem key={option} value={String(option)}>{option} mm/mV</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {MODE_HINTS[mode]}
+        {calibration
+          ? ` Calibrado a ${calibration.paperSpeed} mm/s e ${calibration.gain} mm/mV (${calibration.pxPerMmX.toFixed(1)} px/mm).`
+          : ' Calibre a imagem antes de medir; velocidade e ganho acima são usados na calibração.'}
+      </p>
+
+      <div className="max-h-[70vh] overflow-auto rounded border">
+        <div ref={contentRef} className="relative" style={{ width: `${zoom * 100}%` }}>
+          <img
+            src={image}
+            alt={alt}
+            className="block w-full select-none"
+            draggable={false}
+            onLoad={(e) => setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+          />
+          {naturalSize && (
+            <svg
+              className={`absolute inset-0 h-full w-full ${mode === 'view' ? '' : 'cursor-crosshair'}`}
+              viewBox={`0 0 ${naturalSize.width} ${naturalSize.height}`}
+              preserveAspectRatio="none"
+              onClick={handleClick}
+              onMouseMove={(e) => setHover(pending ? toImagePoint(e) : null)}
+              onMouseLeave={() => setHover(null)}
+            >
+              {calibration && measurements.map((measurement, index) => (
+                <React.Fragment key={measurement.id}>
+                  {renderCaliper(measurement.start, measurement.end, `${index + 1}`, '#2563eb')}
+                </React.Fragment>
+              ))}
+              {pending && renderCaliper(pending, hover ?? pending, '', mode === 'measure' ? '#2563eb' : '#16a34a')}
+            </svg>
+          )}
+        </div>
+      </div>
+
+      {calibration && measurements.length > 0 && (
+        <ul className="space-y-1 text-sm">
+          {measurements.map((measurement, index) => (
+            <li key={measurement.id} className="flex items-center justify-between rounded border px-2 py-1">
+              <span>
+                <span className="font-medium">{index + 1}.</span> {formatMeasurement(measurement)}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => update({ measurements: measurements.filter(item => item.id !== measurement.id) })}
+                aria-label={`Remover medida ${index + 1}`}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  computeQtc,
+  EcgMeasurements,
+  getRangeFlag,
+  getReferenceRange,
+  MeasurementField,
+  MEASUREMENT_LABELS,
+  QTC_FIELDS,
+  QTC_LABELS,
+  QtcFormula,
+  RangeFlag
+} from '@/lib/measurements';
+
+interface EcgMeasurementsFormProps {
+  value: EcgMeasurements;
+  /** Omit to show the measurements read-only */
+  onChange?: (value: EcgMeasurements) => void;
+  /** Validation messages per field */
+  errors?: Partial<Record<keyof EcgMeasurements, string>>;
+}
+
+const FLAG_LABELS: Record<Exclude<RangeFlag, null>, string> = {
+  low: 'Abaixo',
+  high: 'Acima'
+};
+
+const RangeHint: React.FC<{ field: MeasurementField; value: number | null }> = ({ field, value }) => {
+  const range = getReferenceRange(field);
+  const flag = getRangeFlag(field, value);
+
+  if (flag) {
+    return (
+      <p className="text-xs font-medium text-destructive">
+        {FLAG_LABELS[flag]} da referência ({range[0]} a {range[1]})
+      </p>
+    );
+  }
+  return range ? <p className="text-xs text-muted-foreground">Ref. {range[0]} a {range[1]}</p> : null;
+};
+
+export const EcgMeasurementsForm: React.FC<EcgMeasurementsFormProps> = ({ value, onChange, errors }) => {
+  const qtc = computeQtc(value.qtInterval, value.heartRate);
+
+  const handleChange = (field: keyof EcgMeasurements, input: string) => {
+    const parsed = input.trim() === '' ? null : Number(input);
+    onChange({ ...value, [field]: Number.isFinite(parsed) ? parsed : null });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {(Object.keys(MEASUREMENT_LABELS) as (keyof EcgMeasurements)[]).map(field => {
+          const { label, unit } = MEASUREMENT_LABELS[field];
+          const flagged = getRangeFlag(field, value[field]) !== null;
+          const error = errors?.[field];
+
+          return (
+            <div key={field} className="space-y-1">
+              <Label htmlFor={`measurement-${field}`} className="text-xs">{label} ({unit})</Label>
+              {onChange ? (
+                <Input
+                  id={`measurement-${field}`}
+                  type="number"
+                  inputMode="numeric"
+                  value={value[field] ?? ''}
+                  onChange={(e) => handleChange(field, e.target.value)}
+                  aria-invalid={!!error}
+                  className={flagged || error ? 'border-destructive focus-visible:ring-destructive' : ''}
+                />
+              ) : (
+                <p id={`measurement-${field}`} className={`text-sm ${flagged ? 'font-medium text-destructive' : 'text-foreground'}`}>
+                  {value[field] ?? '—'}
+                </p>
+              )}
+              {error ? (
+                <p className="text-xs font-medium text-destructive">{error}</p>
+              ) : (
+                <RangeHint field={field} value={value[field]} />
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs">QTc (ms)</Label>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {(Object.keys(QTC_LABELS) as QtcFormula[]).map(formula => {
+            const flagged = getRangeFlag(QTC_FIELDS[formula], qtc[formula]) !== null;
+            return (
+              <div key={formula} className="rounded border px-3 py-2">
+                <p className="text-xs text-muted-foreground">{QTC_LABELS[formula]}</p>
+                <p className={`text-sm ${flagged ? 'font-medium text-destructive' : 'text-foreground'}`}>
+                  {qtc[formula] ?? '—'}
+                </p>
+                <RangeHint field={QTC_FIELDS[formula]} value={qtc[formula]} />
+              </div>
+            );
+          })}
+        </div>
+        {qtc.bazett === null && (
+          <p className="text-xs text-muted-foreground">Informe FC e QT para calcular o QTc.</p>
+        )}
+      </div>
+    </div>
+  );
+};
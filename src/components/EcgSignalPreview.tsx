@@ -0,0 +1,56 @@
+import React, { useMemo } from 'react';
+import { EcgSignal } from '@/lib/signal';
+
+interface EcgSignalPreviewProps {
+  signal: EcgSignal;
+  /** Seconds of signal to draw from the start of the recording */
+  seconds?: number;
+}
+
+const ROW_HEIGHT = 48;
+const WIDTH = 600;
+// Vertical scale: 1 mV spans most of a row
+const MICROVOLTS_PER_ROW = 1500;
+
+export const EcgSignalPreview: React.FC<EcgSignalPreviewProps> = ({
+  signal,
+  seconds = 2.5
+}) => {
+  const paths = useMemo(() => {
+    const sampleCount = Math.round(seconds * signal.samplingRate);
+    // Draw at most one point per horizontal pixel
+    const step = Math.max(1, Math.floor(sampleCount / WIDTH));
+
+    return signal.leads.map((lead, row) => {
+      const samples = lead.samples.slice(0, sampleCount);
+      const baseline = samples.length > 0 ? samples.reduce((sum, sample) => sum + sample, 0) / samples.length : 0;
+      const center = row * ROW_HEIGHT + ROW_HEIGHT / 2;
+      const points: string[] = [];
+
+      for (let i = 0; i < samples.length; i += step) {
+        const x = (i / sampleCount) * WIDTH;
+        const y = center - ((samples[i] - baseline) / MICROVOLTS_PER_ROW) * ROW_HEIGHT;
+        points.push(`${x.toFixed(1)},${y.toFixed(1)}`);
+      }
+      return { name: lead.name, center, points: points.join(' ') };
+    });
+  }, [signal, seconds]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${paths.length * ROW_HEIGHT}`}
+      className="w-full rounded border bg-background"
+      role="img"
+      aria-label="Pré-visualização do sinal de ECG"
+    >
+      {paths.map((path, index) => (
+        <g key={index}>
+          <text x={4} y={path.center - ROW_HEIGHT / 4} className="fill-muted-foreground text-[10px]">
+            {path.name}
+          </text>
+          <polyline points={path.points} fill="none" className="stroke-primary" strokeWidth={1} />
+        </g>
+      ))}
+    </svg>
+  );
+};
@@ -0,0 +1,329 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { deriveLimbLeads, EcgSignal, getSignalDuration } from '@/lib/signal';
+import { GAINS, PAPER_SPEEDS } from '@/lib/calipers';
+
+interface EcgWaveformViewerProps {
+  signal: EcgSignal;
+}
+
+type ViewerLayout = '3x4' | 'single';
+
+// Classic 12-lead printout: three rows of four 2.5 s columns plus a rhythm strip
+const STANDARD_GRID = [
+  ['I', 'aVR', 'V1', 'V4'],
+  ['II', 'aVL', 'V2', 'V5'],
+  ['III', 'aVF', 'V3', 'V6']
+];
+const RHYTHM_LEAD = 'II';
+const COLUMN_SECONDS = 2.5;
+const SINGLE_LEAD_SECONDS = 10;
+
+// Left margin holding the 1 mV calibration pulse, in mm
+const MARGIN_MM = 10;
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 8;
+const ZOOM_STEP = 1.5;
+
+const GRID_MINOR_COLOR = '#f9d0d0';
+const GRID_MAJOR_COLOR = '#ef9a9a';
+const TRACE_COLOR = '#111827';
+
+export const EcgWaveformViewer: React.FC<EcgWaveformViewerProps> = ({ signal }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; offset: number } | null>(null);
+
+  // Leads with the DC offset removed, so each trace sits on its row baseline
+  const leads = useMemo(() => {
+    return new Map(deriveLimbLeads(signal).map(lead => {
+      const mean = lead.samples.reduce((sum, sample) => sum + sample, 0) / (lead.samples.length || 1);
+      return [lead.name, lead.samples.map(sample => sample - mean)];
+    }));
+  }, [signal]);
+
+  const hasStandardLeads = STANDARD_GRID.flat().every(name => leads.has(name));
+  const [layout, setLayout] = useState<ViewerLayout>(hasStandardLeads ? '3x4' : 'single');
+  const [singleLead, setSingleLead] = useState(leads.has(RHYTHM_LEAD) ? RHYTHM_LEAD : signal.leads[0]?.name);
+  const [speed, setSpeed] = useState(25);
+  const [gain, setGain] = useState(10);
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState(0);
+  const [width, setWidth] = useState(0);
+
+  const duration = getSignalDuration(signal);
+  const fitSeconds = layout === '3x4' ? COLUMN_SECONDS * 4 : SINGLE_LEAD_SECONDS;
+  // At zoom 1 the layout's standard duration fills the available width
+  const pxPerMm = (width / (MARGIN_MM + fitSeconds * speed)) * zoom;
+  const widthMm = pxPerMm > 0 ? width / pxPerMm : 0;
+  const visibleSeconds = Math.max(0, (widthMm - MARGIN_MM) / speed);
+  const rowHeightMm = Math.max(20, gain * 2.5);
+  const rowCount = layout === '3x4' ? STANDARD_GRID.length + 1 : 1;
+  const maxOffset = Math.max(0, duration - visibleSeconds);
+  const clampedOffset = Math.min(Math.max(0, offset), maxOffset);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(entries => {
+      setWidth(entries[0].contentRect.width);
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || pxPerMm <= 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const heightMm = rowCount * rowHeightMm;
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(heightMm * pxPerMm * dpr);
+    canvas.style.height = `${heightMm * pxPerMm}px`;
+
+    const context = canvas.getContext('2d');
+    // Everything below is drawn in millimetres of paper
+    context.setTransform(dpr * pxPerMm, 0, 0, dpr * pxPerMm, 0, 0);
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, widthMm, heightMm);
+
+    const hairline = 1 / pxPerMm;
+    for (let mm = 0; mm <= Math.max(widthMm, heightMm); mm++) {
+      context.strokeStyle = mm % 5 === 0 ? GRID_MAJOR_COLOR : GRID_MINOR_COLOR;
+      context.lineWidth = mm % 5 === 0 ? hairline * 1.5 : hairline;
+      context.beginPath();
+      if (mm <= widthMm) {
+        context.moveTo(mm, 0);
+        context.lineTo(mm, heightMm);
+      }
+      if (mm <= heightMm) {
+        context.moveTo(0, mm);
+        context.lineTo(widthMm, mm);
+      }
+      context.stroke();
+    }
+
+    context.strokeStyle = TRACE_COLOR;
+    context.fillStyle = TRACE_COLOR;
+    context.lineWidth = hairline * 1.5;
+    context.lineJoin = 'round';
+    context.font = '3px sans-serif';
+
+    const drawCalibration = (baseline: number) => {
+      const pulseWidth = 0.2 * speed;
+      context.beginPath();
+      context.moveTo(2, baseline);
+      context.lineTo(3, baseline);
+      context.lineTo(3, baseline - gain);
+      context.lineTo(3 + pulseWidth, baseline - gain);
+      context.lineTo(3 + pulseWidth, baseline);
+      context.lineTo(MARGIN_MM - 1, baseline);
+      context.stroke();
+    };
+
+    const drawTrace = (name: string, x: number, cellWidth: number, baseline: number, start: number) => {
+      const samples = leads.get(name);
+      context.fillText(name, x + 1, baseline - rowHeightMm / 2 + 4);
+      if (!samples) return;
+
+      const first = Math.max(0, Math.floor(start * signal.samplingRate));
+      const last = Math.min(samples.length, Math.ceil((start + cellWidth / speed) * signal.samplingRate));
+      // Keep at most two points per device pixel, preserving peaks with min/max buckets
+      const bucket = Math.max(1, Math.floor((last - first) / (cellWidth * pxPerMm * dpr)));
+      const toX = (index: number) => x + ((index / signal.samplingRate) - start) * speed;
+      const toY = (microvolts: number) => baseline - (microvolts / 1000) * gain;
+
+      context.save();
+      context.beginPath();
+      context.rect(x, baseline - rowHeightMm / 2, cellWidth, rowHeightMm);
+      context.clip();
+      context.beginPath();
+      for (let index = first; index < last; index += bucket) {
+        let min = samples[index];
+        let max = samples[index];
+        for (let j = index + 1; j < Math.min(index + bucket, last); j++) {
+          min = Math.min(min, samples[j]);
+          max = Math.max(max, samples[j]);
+        }
+        if (index === first) {
+          context.moveTo(toX(index), toY(samples[index]));
+        }
+        context.lineTo(toX(index), toY(max));
+        if (bucket > 1) context.lineTo(toX(index), toY(min));
+      }
+      context.stroke();
+      context.restore();
+    };
+
+    if (layout === '3x4') {
+      const columnWidth = (widthMm - MARGIN_MM) / 4;
+      const columnSeconds = columnWidth / speed;
+
+      STANDARD_GRID.forEach((row, rowIndex) => {
+        const baseline = rowIndex * rowHeightMm + rowHeightMm / 2;
+        drawCalibration(baseline);
+        row.forEach((name, column) => {
+          const x = MARGIN_MM + column * columnWidth;
+          drawTrace(name, x, columnWidth, baseline, clampedOffset + column * columnSeconds);
+          if (column > 0) {
+            context.beginPath();
+            context.moveTo(x, baseline - 2);
+            context.lineTo(x, baseline + 2);
+            context.stroke();
+          }
+        });
+      });
+
+      const rhythmBaseline = STANDARD_GRID.length * rowHeightMm + rowHeightMm / 2;
+      drawCalibration(rhythmBaseline);
+      drawTrace(RHYTHM_LEAD, MARGIN_MM, widthMm - MARGIN_MM, rhythmBaseline, clampedOffset);
+    } else {
+      const baseline = rowHeightMm / 2;
+      drawCalibration(baseline);
+      drawTrace(singleLead, MARGIN_MM, widthMm - MARGIN_MM, baseline, clampedOffset);
+    }
+  }, [leads, signal.samplingRate, layout, singleLead, speed, gain, pxPerMm, width, widthMm, rowCount, rowHeightMm, clampedOffset]);
+
+  useEffect(() => {
+    draw();
+  }, [draw]);
+
+  const changeZoom = useCallback((factor: number) => {
+    setZoom(prev => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev * factor)));
+  }, []);
+
+  // Native listener so the page does not scroll while zooming or panning the trace
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      if (e.ctrlKey) {
+        e.preventDefault();
+        changeZoom(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP);
+      } else if (Math.abs(e.deltaX) > Math.abs(e.deltaY) && pxPerMm > 0) {
+        e.preventDefault();
+        setOffset(prev => Math.min(Math.max(0, prev + e.deltaX / (pxPerMm * speed)), maxOffset));
+      }
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [changeZoom, pxPerMm, speed, maxOffset]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, offset: clampedOffset };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!dragRef.current || pxPerMm <= 0) return;
+
+    const seconds = (e.clientX - dragRef.current.x) / (pxPerMm * speed);
+    setOffset(Math.min(Math.max(0, dragRef.current.offset - seconds), maxOffset));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Layout</Label>
+          <Select value={layout} onValueChange={(value) => setLayout(value as ViewerLayout)}>
+            <SelectTrigger className="h-8 w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="3x4" disabled={!hasStandardLeads}>3×4 + ritmo</SelectItem>
+              <SelectItem value="single">Derivação única</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {layout === 'single' && (
+          <div className="space-y-1">
+            <Label className="text-xs">Derivação</Label>
+            <Select value={singleLead} onValueChange={setSingleLead}>
+              <SelectTrigger className="h-8 w-[100px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[...leads.keys()].map(name => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <Label className="text-xs">Velocidade</Label>
+          <Select value={String(speed)} onValueChange={(value) => setSpeed(Number(value))}>
+            <SelectTrigger className="h-8 w-[110px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAPER_SPEEDS.map(value => (
+                <SelectItem key={value} value={String(value)}>{value} mm/s</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Ganho</Label>
+          <Select value={String(gain)} onValueChange={(value) => setGain(Number(value))}>
+            <SelectTrigger className="h-8 w-[110px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GAINS.map(value => (
+                <SelectItem key={value} value={String(value)}>{value} mm/mV</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center space-x-1">
+          <Button variant="outline" size="sm" className="h-8 w-8 p-0" onClick={() => changeZoom(1 / ZOOM_STEP)} aria-label="Diminuir zoom">
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" className="h-8 w-8 p-0" onClick={() => changeZoom(ZOOM_STEP)} aria-label="Aumentar zoom">
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={() => { setZoom(1); setOffset(0); }}
+            aria-label="Restaurar visualização"
+          >
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div ref={containerRef} className="w-full overflow-hidden rounded border">
+        <canvas
+          ref={canvasRef}
+          className="block w-full cursor-grab touch-none active:cursor-grabbing"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {clampedOffset.toFixed(1)}–{Math.min(duration, clampedOffset + visibleSeconds).toFixed(1)} s de {duration.toFixed(1)} s · {speed} mm/s · {gain} mm/mV · arraste para navegar, Ctrl + rolagem para zoom
+      </p>
+    </div>
+  );
+};
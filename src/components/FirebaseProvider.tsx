@@ -0,0 +1,264 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { FirebaseContext } from '@/hooks/use-firebase';
+import {
+  disposeFirebase,
+  FirebaseAppCredentials,
+  FirebaseServices,
+  FirestoreCredentials,
+  getAppCredentials,
+  initFirebase
+} from '@/lib/firebase';
+import {
+  ConnectionProfile,
+  createProfileId,
+  EMPTY_PROFILE_STORE,
+  loadProfiles,
+  ProfileStore,
+  saveProfiles
+} from '@/lib/connectionProfiles';
+import {
+  createVault,
+  loadVaultSettings,
+  ProfileVault,
+  removeSealedProfiles,
+  sealProfiles,
+  unsealProfiles,
+  VaultSettings
+} from '@/lib/profileVault';
+import { createFirestorePatientRepository } from '@/lib/patients';
+import { createFirestoreRecordRepository } from '@/lib/firestoreRecordRepository';
+import { createDemoRepositories, DEMO_MODE_STORAGE_KEY } from '@/lib/demoData';
+import { DEFAULT_USER_ROLE, isPrivilegedRole, isUserRole, UserRole } from '@/lib/userRoles';
+
+// Interactions that postpone the auto-lock
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown'] as const;
+
+/**
+ * Owns the connection profiles and the Firebase app for the active one. Pages
+ * share its Firestore and Storage clients instead of initializing an app per
+ * action; a new app is created, and the previous one deleted, only when the
+ * active credentials change. In demo mode no app is created and the
+ * repositories hold seeded data.
+ *
+ * Profiles protected by a passphrase start locked, with no profiles at all,
+ * and are locked again after the configured time without interaction.
+ */
+export const FirebaseProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  // Null while the profiles are stored unencrypted
+  const [vaultSettings, setVaultSettings] = useState<VaultSettings | null>(loadVaultSettings);
+  // Key derived from the passphrase; encrypted profiles are locked without it
+  const [vault, setVault] = useState<ProfileVault | null>(null);
+  const [store, setStore] = useState<ProfileStore>(() => (vaultSettings ? EMPTY_PROFILE_STORE : loadProfiles()));
+  const [isDemo, setIsDemo] = useState(() => localStorage.getItem(DEMO_MODE_STORAGE_KEY) === 'true');
+  const isLocked = vaultSettings !== null && vault === null;
+  const autoLockMinutes = vaultSettings?.autoLockMinutes ?? 0;
+
+  // Writes are queued, so a slow encryption cannot land after a later write
+  const writes = useRef<Promise<void>>(Promise.resolve());
+  const persist = useCallback((write: () => void | Promise<void>) => {
+    writes.current = writes.current.then(write).catch(error => console.error('Error saving profiles:', error));
+  }, []);
+
+  useEffect(() => {
+    // Nothing is decrypted while locked, so there is nothing to write
+    if (isLocked) return;
+    persist(() => (vault ? sealProfiles(store, vault, vaultSettings) : saveProfiles(store)));
+  }, [store, vault, vaultSettings, isLocked, persist]);
+
+  const lock = useCallback(() => {
+    if (!vault) return;
+    setVault(null);
+    setStore(EMPTY_PROFILE_STORE);
+  }, [vault]);
+
+  useEffect(() => {
+    if (!vault || !autoLockMinutes) return;
+
+    let timer: ReturnType<typeof setTimeout>;
+    const restart = () => {
+      clearTimeout(timer);
+      timer = setTimeout(lock, autoLockMinutes * 60 * 1000);
+    };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, restart));
+    restart();
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, restart));
+    };
+  }, [vault, autoLockMinutes, lock]);
+
+  const unlock = useCallback(async (passphrase: string) => {
+    const unsealed = await unsealProfiles(passphrase);
+    setVault(unsealed.vault);
+    setStore(unsealed.store);
+  }, []);
+
+  const enableEncryption = useCallback(async (passphrase: string, minutes: number) => {
+    const next = await createVault(passphrase);
+    setVault(next);
+    setVaultSettings({ autoLockMinutes: minutes });
+  }, []);
+
+  const disableEncryption = useCallback(() => {
+    if (!vault) return;
+    persist(removeSealedProfiles);
+    setVault(null);
+    setVaultSettings(null);
+  }, [vault, persist]);
+
+  const setAutoLockMinutes = useCallback((minutes: number) => {
+    setVaultSettings(prev => prev && { ...prev, autoLockMinutes: minutes });
+  }, []);
+
+  const forgetEncryptedProfiles = useCallback(() => {
+    persist(removeSealedProfiles);
+    setVault(null);
+    setVaultSettings(null);
+    setStore(EMPTY_PROFILE_STORE);
+  }, [persist]);
+
+  const activeProfile = store.profiles.find(profile => profile.id === store.activeProfileId) ?? null;
+  const credentials = activeProfile?.credentials ?? null;
+
+  // Compared by value, so saving identical settings keeps the current app
+  const appKey = credentials && !isDemo ? JSON.stringify(getAppCredentials(credentials)) : null;
+  const [services, setServices] = useState<FirebaseServices | null>(null);
+
+  // Created in an effect rather than during render, so each app is deleted by
+  // the cleanup of the same run that created it
+  useEffect(() => {
+    if (!appKey) return;
+    const next = initFirebase(JSON.parse(appKey) as FirebaseAppCredentials, 'medical-app');
+    setServices(next);
+    return () => {
+      setServices(null);
+      disposeFirebase(next);
+    };
+  }, [appKey]);
+
+  const saveCredentials = useCallback((next: FirestoreCredentials) => {
+    setStore(prev => {
+      // Saving without any profile yet creates the first one
+      if (!prev.profiles.some(profile => profile.id === prev.activeProfileId)) {
+        const profile: ConnectionProfile = { id: createProfileId(), name: 'Padrão', credentials: next };
+        return { profiles: [...prev.profiles, profile], activeProfileId: profile.id };
+      }
+      return {
+        ...prev,
+        profiles: prev.profiles.map(profile => {
+          return profile.id === prev.activeProfileId ? { ...profile, credentials: next } : profile;
+        })
+      };
+    });
+  }, []);
+
+  const switchProfile = useCallback((profileId: string) => {
+    setStore(prev => ({ ...prev, activeProfileId: profileId }));
+  }, []);
+
+  const createProfile = useCallback((name: string, fromProfileId?: string) => {
+    setStore(prev => {
+      const source = prev.profiles.find(profile => profile.id === fromProfileId);
+      const profile: ConnectionProfile = { id: createProfileId(), name, credentials: source?.credentials ?? null };
+      return { profiles: [...prev.profiles, profile], activeProfileId: profile.id };
+    });
+  }, []);
+
+  const renameProfile = useCallback((profileId: string, name: string) => {
+    setStore(prev => ({
+      ...prev,
+      profiles: prev.profiles.map(profile => (profile.id === profileId ? { ...profile, name } : profile))
+    }));
+  }, []);
+
+  const deleteProfile = useCallback((profileId: string) => {
+    setStore(prev => {
+      const profiles = prev.profiles.filter(profile => profile.id !== profileId);
+      const activeProfileId = prev.activeProfileId === profileId ? profiles[0]?.id ?? null : prev.activeProfileId;
+      return { profiles, activeProfileId };
+    });
+  }, []);
+
+  // A privileged role only counts from unlocked, encrypted profiles
+  const role = isUserRole(store.role) && (vault || !isPrivilegedRole(store.role)) ? store.role : DEFAULT_USER_ROLE;
+
+  const setRole = useCallback(async (next: UserRole, passphrase?: string) => {
+    if (isPrivilegedRole(next)) {
+      if (!vault) {
+        throw new Error('Ative a proteção por senha das credenciais para usar este perfil');
+      }
+      // Whoever is at an unlocked workstation still has to know the passphrase
+      await unsealProfiles(passphrase ?? '');
+    }
+    setStore(prev => ({ ...prev, role: next }));
+  }, [vault]);
+
+  const setDemoMode = useCallback((enabled: boolean) => {
+    localStorage.setItem(DEMO_MODE_STORAGE_KEY, String(enabled));
+    setIsDemo(enabled);
+  }, []);
+
+  // Seeded when demo mode is turned on; changes last until the page is reloaded
+  const demo = useMemo(() => (isDemo ? createDemoRepositories() : null), [isDemo]);
+  const collectionName = credentials?.collectionName;
+  const repositories = useMemo(() => {
+    if (demo) return demo;
+    if (!services) return { records: null, patients: null };
+    return {
+      records: createFirestoreRecordRepository(services, collectionName),
+      patients: createFirestorePatientRepository(services.db)
+    };
+  }, [demo, services, collectionName]);
+
+  const value = useMemo(() => ({
+    credentials,
+    services,
+    saveCredentials,
+    profiles: store.profiles,
+    activeProfile,
+    switchProfile,
+    createProfile,
+    renameProfile,
+    deleteProfile,
+    isDemo,
+    setDemoMode,
+    isEncrypted: vaultSettings !== null,
+    isLocked,
+    autoLockMinutes,
+    unlock,
+    lock,
+    enableEncryption,
+    disableEncryption,
+    setAutoLockMinutes,
+    forgetEncryptedProfiles,
+    role,
+    setRole,
+    ...repositories
+  }), [
+    credentials,
+    services,
+    saveCredentials,
+    store.profiles,
+    activeProfile,
+    switchProfile,
+    createProfile,
+    renameProfile,
+    deleteProfile,
+    isDemo,
+    setDemoMode,
+    vaultSettings,
+    isLocked,
+    autoLockMinutes,
+    unlock,
+    lock,
+    enableEncryption,
+    disableEncryption,
+    setAutoLockMinutes,
+    forgetEncryptedProfiles,
+    role,
+    setRole,
+    repositories
+  ]);
+
+  return <FirebaseContext.Provider value={value}>{children}</FirebaseContext.Provider>;
+};
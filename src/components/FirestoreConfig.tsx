@@ -4,97 +4,164 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import { Save, Database, Check, Loader2 } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Save, Database, Check, FlaskConical, Loader2, Server, ClipboardPaste } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { initializeApp } from 'firebase/app';
-import { getFirestore, collection, addDoc, deleteDoc, doc } from 'firebase/firestore';
-
-interface FirestoreCredentials {
-  projectId: string;
-  apiKey: string;
-  authDomain: string;
-  storageBucket: string;
-  messagingSenderId: string;
-  appId: string;
-  collectionName: string;
-}
-
-interface FirestoreConfigProps {
-  onCredentialsSave: (credentials: FirestoreCredentials) => void;
-  isConnected: boolean;
-}
-
-export const FirestoreConfig: React.FC<FirestoreConfigProps> = ({
-  onCredentialsSave,
-  isConnected
-}) => {
+import { useFirebase } from '@/hooks/use-firebase';
+import { ConnectionChecklist } from '@/components/ConnectionChecklist';
+import { ConnectionProfileManager } from '@/components/ConnectionProfileManager';
+import { EMPTY_CREDENTIALS } from '@/lib/connectionProfiles';
+import {
+  CONFIG_FORMAT_LABELS,
+  IMPORT_ISSUE_LABELS,
+  ImportedField,
+  ImportIssue,
+  parseFirebaseConfig
+} from '@/lib/configImport';
+import { deriveFromProjectId, getSuggestedStorageBucket, validateCredentials } from '@/lib/credentialValidation';
+import {
+  DEFAULT_EMULATOR_SETTINGS,
+  EmulatorSettings,
+  FirestoreCredentials,
+  getDefaultStorageBucket,
+  ProbeStrategy
+} from '@/lib/firebase';
+import {
+  CONNECTION_ERRORS,
+  CONNECTION_STEP_LABELS,
+  ConnectionStepResult,
+  DEFAULT_PROBE_STRATEGY,
+  isConnectionTestPassed,
+  PROBE_STRATEGIES,
+  runConnectionTest
+} from '@/lib/connectionTest';
+
+const isValidPort = (port: number | null) => Number.isInteger(port) && port > 0 && port <= 65535;
+
+export const FirestoreConfig: React.FC = () => {
   const { toast } = useToast();
+  const { credentials: savedCredentials, saveCredentials, activeProfile, isDemo, setDemoMode, isLocked } = useFirebase();
+  const isConnected = savedCredentials !== null && !isDemo;
   const [isLoading, setIsLoading] = useState(false);
-  const [credentials, setCredentials] = useState<FirestoreCredentials>({
-    projectId: '',
-    apiKey: '',
-    authDomain: '',
-    storageBucket: '',
-    messagingSenderId: '',
-    appId: '',
-    collectionName: 'medical_records'
-  });
-
-  // Load saved credentials on mount
+  // Checklist of the last connection test, shown until the next one
+  const [testSteps, setTestSteps] = useState<ConnectionStepResult[]>([]);
+  const [credentials, setCredentials] = useState<FirestoreCredentials>(EMPTY_CREDENTIALS);
+  const [importText, setImportText] = useState('');
+  // Fields the last import could not fill, highlighted until edited
+  const [importIssues, setImportIssues] = useState<Partial<Record<ImportedField, ImportIssue>>>({});
+  // Format errors are shown once a save or import is attempted, then follow each edit
+  const [showFormatErrors, setShowFormatErrors] = useState(false);
+  const formatErrors = showFormatErrors ? validateCredentials(credentials) : {};
+
+  const probeStrategy = credentials.probeStrategy ?? DEFAULT_PROBE_STRATEGY;
+  const activeProfileId = activeProfile?.id ?? null;
+
+  // Load the active profile's settings, or the defaults for a profile not saved yet
   useEffect(() => {
-    const saved = localStorage.getItem('firestore_credentials');
-    if (saved) {
-      try {
-        const parsedCredentials = JSON.parse(saved);
-        setCredentials(parsedCredentials);
-      } catch (error) {
-        console.error('Error parsing saved credentials:', error);
-      }
-    }
-  }, []);
+    setCredentials(savedCredentials ?? EMPTY_CREDENTIALS);
+  }, [activeProfileId, savedCredentials]);
+
+  // A checklist and import warnings belong to the profile they were made for
+  useEffect(() => {
+    setTestSteps([]);
+    setImportIssues({});
+    setShowFormatErrors(false);
+  }, [activeProfileId]);
 
   const handleInputChange = (field: keyof FirestoreCredentials, value: string) => {
     setCredentials(prev => ({
       ...prev,
+      ...(field === 'projectId' ? deriveFromProjectId(prev, value) : {}),
       [field]: value
     }));
+    setImportIssues(prev => {
+      if (!(field in prev)) return prev;
+      const { [field as ImportedField]: _, ...rest } = prev;
+      return rest;
+    });
   };
 
-  const testConnection = async (credentialsToTest: FirestoreCredentials) => {
-    const firebaseConfig = {
-      apiKey: credentialsToTest.apiKey,
-      authDomain: credentialsToTest.authDomain,
-      projectId: credentialsToTest.projectId,
-      storageBucket: credentialsToTest.storageBucket,
-      messagingSenderId: credentialsToTest.messagingSenderId,
-      appId: credentialsToTest.appId
-    };
-
-    try {
-      // Initialize Firebase app
-      const app = initializeApp(firebaseConfig, `test-app-${Date.now()}`);
-      const db = getFirestore(app);
-
-      // Try to add a test document
-      const testDoc = await addDoc(collection(db, credentialsToTest.collectionName), {
-        test: true,
-        timestamp: new Date().toISOString(),
-        connectionTest: 'success'
+  const handleImport = () => {
+    const { format, values, issues } = parseFirebaseConfig(importText);
+    if (!format) {
+      toast({
+        title: "Configuração não reconhecida",
+        description: "Cole o objeto firebaseConfig do Console do Firebase, um JSON ou linhas VITE_FIREBASE_* de um arquivo .env.",
+        variant: "destructive"
       });
+      return;
+    }
 
-      // Delete the test document immediately
-      await deleteDoc(testDoc);
+    setCredentials(prev => ({ ...prev, ...values }));
+    setImportIssues(issues);
+    setShowFormatErrors(true);
+    setImportText('');
 
-      return true;
-    } catch (error) {
-      console.error('Connection test failed:', error);
-      throw error;
-    }
+    const problems = Object.keys(issues);
+    toast({
+      title: "Configuração importada",
+      description: problems.length > 0
+        ? `Campos preenchidos a partir do ${CONFIG_FORMAT_LABELS[format]}. Revise: ${problems.join(', ')}.`
+        : `Todos os campos foram preenchidos a partir do ${CONFIG_FORMAT_LABELS[format]}.`,
+      variant: "default"
+    });
+  };
+
+  const getFieldIssue = (field: keyof FirestoreCredentials) => {
+    const importIssue = importIssues[field as ImportedField];
+    return formatErrors[field] ?? (importIssue && IMPORT_ISSUE_LABELS[importIssue]);
+  };
+
+  const getFieldClassName = (field: keyof FirestoreCredentials) => {
+    return `transition-all duration-200 focus:shadow-md${getFieldIssue(field) ? ' border-destructive' : ''}`;
+  };
+
+  const renderFieldIssue = (field: keyof FirestoreCredentials) => {
+    const issue = getFieldIssue(field);
+    return issue && <p className="text-xs text-destructive">{issue}</p>;
+  };
+
+  const handleEmulatorToggle = (enabled: boolean) => {
+    setCredentials(prev => {
+      // A suggested bucket switches to the one the new mode uses
+      const { projectId, storageBucket } = prev;
+      const isSuggestion = !!projectId && storageBucket === getSuggestedStorageBucket(projectId, !enabled);
+      return {
+        ...prev,
+        emulator: enabled ? { ...DEFAULT_EMULATOR_SETTINGS } : null,
+        storageBucket: isSuggestion ? getSuggestedStorageBucket(projectId, enabled) : storageBucket
+      };
+    });
+  };
+
+  const handleEmulatorChange = (field: keyof EmulatorSettings, value: string) => {
+    setCredentials(prev => ({
+      ...prev,
+      emulator: {
+        ...prev.emulator,
+        [field]: field === 'host' ? value : value ? Number(value) : null
+      }
+    }));
   };
 
   const handleSave = async () => {
-    // Validate required fields
-    const requiredFields = ['projectId', 'apiKey', 'authDomain', 'collectionName'];
+    const { emulator } = credentials;
+
+    // Saving now would be overwritten by the encrypted profiles on unlock
+    if (isLocked) {
+      toast({
+        title: "Credenciais bloqueadas",
+        description: "Desbloqueie as credenciais com a senha antes de alterar as configurações.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // Validate required fields; the emulators need no real project settings
+    const requiredFields = emulator
+      ? ['projectId', 'collectionName']
+      : ['projectId', 'apiKey', 'authDomain', 'storageBucket', 'collectionName'];
     const missingFields = requiredFields.filter(field => !credentials[field as keyof FirestoreCredentials]);
 
     if (missingFields.length > 0) {
@@ -106,36 +173,97 @@ export const FirestoreConfig: React.FC<FirestoreConfigProps> = ({
       return;
     }
 
+    const formatErrorFields = Object.keys(validateCredentials(credentials));
+    if (formatErrorFields.length > 0) {
+      setShowFormatErrors(true);
+      toast({
+        title: "Campos inválidos",
+        description: `Corrija o formato de: ${formatErrorFields.join(', ')}`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (emulator) {
+      const invalidPorts = [emulator.firestorePort, emulator.authPort, emulator.storagePort]
+        .filter((port, index) => (index === 0 || port !== null) && !isValidPort(port));
+      if (!emulator.host.trim() || invalidPorts.length > 0) {
+        toast({
+          title: "Emulador inválido",
+          description: "Informe o host e portas entre 1 e 65535 para o emulador",
+          variant: "destructive"
+        });
+        return;
+      }
+    }
+
+    // The Storage emulator serves the project's default bucket
+    const credentialsToSave = emulator?.storagePort && !credentials.storageBucket
+      ? { ...credentials, storageBucket: getDefaultStorageBucket(credentials.projectId) }
+      : credentials;
+
     setIsLoading(true);
 
     try {
       // Test connection first
-      await testConnection(credentials);
+      const steps = await runConnectionTest(credentialsToSave, setTestSteps);
+      if (!isConnectionTestPassed(steps)) {
+        const failed = steps.find(step => step.status === 'error');
+        toast({
+          title: "Erro de conexão",
+          description: `${CONNECTION_STEP_LABELS[failed.step]}: ${CONNECTION_ERRORS[failed.error].title}. Veja os detalhes abaixo.`,
+          variant: "destructive"
+        });
+        return;
+      }
 
-      // Save to localStorage only if connection test passes
-      localStorage.setItem('firestore_credentials', JSON.stringify(credentials));
-      
-      // Call parent callback
-      onCredentialsSave(credentials);
+      // Save only if connection test passes
+      saveCredentials(credentialsToSave);
+      setCredentials(credentialsToSave);
 
       toast({
         title: "Conexão bem-sucedida",
-        description: "Credenciais salvas e conexão com Firestore testada com sucesso!",
+        description: emulator
+          ? "Configuração salva e conexão com o emulador testada com sucesso!"
+          : "Credenciais salvas e conexão com Firestore testada com sucesso!",
         variant: "default"
       });
-    } catch (error) {
-      toast({
-        title: "Erro de conexão",
-        description: "Não foi possível conectar ao Firestore. Verifique suas credenciais.",
-        variant: "destructive"
-      });
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleDemoModeChange = (enabled: boolean) => {
+    setDemoMode(enabled);
+    toast({
+      title: enabled ? "Modo demonstração ativado" : "Modo demonstração desativado",
+      description: enabled
+        ? "Os registros de exemplo ficam apenas na memória do navegador."
+        : savedCredentials
+          ? "Os dados voltam a ser lidos do Firestore."
+          : "Configure as credenciais abaixo para usar o Firestore.",
+      variant: "default"
+    });
+  };
+
   return (
     <div className="space-y-6">
+      <Card className="border-primary/20">
+        <CardContent className="flex items-center justify-between gap-4 pt-6">
+          <div className="space-y-1">
+            <Label htmlFor="demoMode" className="flex items-center space-x-2">
+              <FlaskConical className="h-4 w-4 text-primary" />
+              <span>Modo demonstração</span>
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              Usa pacientes e registros de exemplo mantidos apenas na memória do navegador, sem conexão com o Firebase.
+              As alterações se perdem ao recarregar a página.
+            </p>
+          </div>
+          <Switch id="demoMode" checked={isDemo} onCheckedChange={handleDemoModeChange} />
+        </CardContent>
+      </Card>
+
       <Card className="border-primary/20" style={{ boxShadow: 'var(--shadow-card)' }}>
         <CardHeader className="bg-gradient-to-r from-primary/5 to-primary-glow/5">
           <div className="flex items-center space-x-2">
@@ -147,6 +275,30 @@ export const FirestoreConfig: React.FC<FirestoreConfigProps> = ({
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4 pt-6">
+          <ConnectionProfileManager />
+
+          <div className="space-y-2 rounded-md border p-4">
+            <Label htmlFor="importConfig" className="flex items-center space-x-2">
+              <ClipboardPaste className="h-4 w-4 text-primary" />
+              <span>Importar configuração</span>
+            </Label>
+            <Textarea
+              id="importConfig"
+              value={importText}
+              onChange={(e) => setImportText(e.target.value)}
+              placeholder={'const firebaseConfig = {\n  apiKey: "AIzaSyC...",\n  projectId: "meu-projeto",\n  ...\n};'}
+              className="min-h-[120px] font-mono text-xs"
+            />
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-xs text-muted-foreground">
+                Aceita o trecho <code>firebaseConfig</code> do Console do Firebase, JSON ou linhas <code>VITE_FIREBASE_*</code> de um arquivo .env.
+              </p>
+              <Button variant="outline" size="sm" onClick={handleImport} disabled={!importText.trim()}>
+                Preencher campos
+              </Button>
+            </div>
+          </div>
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="projectId">Project ID *</Label>
@@ -155,8 +307,9 @@ export const FirestoreConfig: React.FC<FirestoreConfigProps> = ({
                 value={credentials.projectId}
                 onChange={(e) => handleInputChange('projectId', e.target.value)}
                 placeholder="meu-projeto-firebase"
-                className="transition-all duration-200 focus:shadow-md"
+                className={getFieldClassName('projectId')}
               />
+              {renderFieldIssue('projectId')}
             </div>
             
             <div className="space-y-2">
@@ -167,8 +320,9 @@ export const FirestoreConfig: React.FC<FirestoreConfigProps> = ({
                 value={credentials.apiKey}
                 onChange={(e) => handleInputChange('apiKey', e.target.value)}
                 placeholder="AIzaSyC..."
-                className="transition-all duration-200 focus:shadow-md"
+                className={getFieldClassName('apiKey')}
               />
+              {renderFieldIssue('apiKey')}
             </div>
             
             <div className="space-y-2">
@@ -178,19 +332,21 @@ export const FirestoreConfig: React.FC<FirestoreConfigProps> = ({
                 value={credentials.authDomain}
                 onChange={(e) => handleInputChange('authDomain', e.target.value)}
                 placeholder="meu-projeto.firebaseapp.com"
-                className="transition-all duration-200 focus:shadow-md"
+                className={getFieldClassName('authDomain')}
               />
+              {renderFieldIssue('authDomain')}
             </div>
             
             <div className="space-y-2">
-              <Label htmlFor="storageBucket">Storage Bucket</Label>
+              <Label htmlFor="storageBucket">Storage Bucket *</Label>
               <Input
                 id="storageBucket"
                 value={credentials.storageBucket}
                 onChange={(e) => handleInputChange('storageBucket', e.target.value)}
                 placeholder="meu-projeto.appspot.com"
-                className="transition-all duration-200 focus:shadow-md"
+                className={getFieldClassName('storageBucket')}
               />
+              {renderFieldIssue('storageBucket')}
             </div>
             
             <div className="space-y-2">
@@ -200,8 +356,9 @@ export const FirestoreConfig: React.FC<FirestoreConfigProps> = ({
                 value={credentials.messagingSenderId}
                 onChange={(e) => handleInputChange('messagingSenderId', e.target.value)}
                 placeholder="123456789"
-                className="transition-all duration-200 focus:shadow-md"
+                className={getFieldClassName('messagingSenderId')}
               />
+              {renderFieldIssue('messagingSenderId')}
             </div>
             
             <div className="space-y-2">
@@ -211,8 +368,9 @@ export const FirestoreConfig: React.FC<FirestoreConfigProps> = ({
                 value={credentials.appId}
                 onChange={(e) => handleInputChange('appId', e.target.value)}
                 placeholder="1:123:web:abc..."
-                className="transition-all duration-200 focus:shadow-md"
+                className={getFieldClassName('appId')}
               />
+              {renderFieldIssue('appId')}
             </div>
           </div>
           
@@ -223,8 +381,94 @@ export const FirestoreConfig: React.FC<FirestoreConfigProps> = ({
               value={credentials.collectionName}
               onChange={(e) => handleInputChange('collectionName', e.target.value)}
               placeholder="medical_records"
-              className="transition-all duration-200 focus:shadow-md"
+              className={getFieldClassName('collectionName')}
             />
+            {renderFieldIssue('collectionName')}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="probeStrategy">Teste de conexão</Label>
+            <Select
+              value={probeStrategy}
+              onValueChange={(value) => setCredentials(prev => ({ ...prev, probeStrategy: value as ProbeStrategy }))}
+            >
+              <SelectTrigger id="probeStrategy">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PROBE_STRATEGIES) as ProbeStrategy[]).map(strategy => (
+                  <SelectItem key={strategy} value={strategy}>
+                    {PROBE_STRATEGIES[strategy].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{PROBE_STRATEGIES[probeStrategy].description}</p>
+          </div>
+
+          <div className="space-y-4 rounded-md border p-4">
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="emulatorMode" className="flex items-center space-x-2">
+                  <Server className="h-4 w-4 text-primary" />
+                  <span>Usar Firebase Emulator</span>
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  Conecta ao Emulator Suite local em vez do projeto real. API Key e Auth Domain não são necessários.
+                </p>
+              </div>
+              <Switch id="emulatorMode" checked={!!credentials.emulator} onCheckedChange={handleEmulatorToggle} />
+            </div>
+
+            {credentials.emulator && (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="emulatorHost">Host *</Label>
+                    <Input
+                      id="emulatorHost"
+                      value={credentials.emulator.host}
+                      onChange={(e) => handleEmulatorChange('host', e.target.value)}
+                      placeholder="localhost"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="firestorePort">Porta do Firestore *</Label>
+                    <Input
+                      id="firestorePort"
+                      type="number"
+                      value={credentials.emulator.firestorePort ?? ''}
+                      onChange={(e) => handleEmulatorChange('firestorePort', e.target.value)}
+                      placeholder="8080"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="authPort">Porta do Auth</Label>
+                    <Input
+                      id="authPort"
+                      type="number"
+                      value={credentials.emulator.authPort ?? ''}
+                      onChange={(e) => handleEmulatorChange('authPort', e.target.value)}
+                      placeholder="9099"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="storagePort">Porta do Storage</Label>
+                    <Input
+                      id="storagePort"
+                      type="number"
+                      value={credentials.emulator.storagePort ?? ''}
+                      onChange={(e) => handleEmulatorChange('storagePort', e.target.value)}
+                      placeholder="9199"
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Inicie os emuladores com <code>firebase emulators:start --only firestore,auth,storage</code>.
+                  Sem a porta do Storage, o envio de imagens fica desativado para não alcançar o bucket real.
+                </p>
+              </>
+            )}
           </div>
 
           <div className="flex items-center justify-between pt-4">
@@ -233,7 +477,9 @@ export const FirestoreConfig: React.FC<FirestoreConfigProps> = ({
                 <>
                   <Check className="h-4 w-4 text-success" />
                   <span className="text-sm text-success font-medium">
-                    Conectado ao Firestore
+                    {savedCredentials.emulator
+                      ? `Conectado ao emulador em ${savedCredentials.emulator.host}:${savedCredentials.emulator.firestorePort}`
+                      : 'Conectado ao Firestore'}
                   </span>
                 </>
               )}
@@ -258,6 +504,8 @@ export const FirestoreConfig: React.FC<FirestoreConfigProps> = ({
               )}
             </Button>
           </div>
+
+          {testSteps.length > 0 && <ConnectionChecklist steps={testSteps} />}
         </CardContent>
       </Card>
 
@@ -1,25 +1,82 @@
-import React, { useCallback, useState } from 'react';
-import { Upload, X, FileImage } from 'lucide-react';
+import React, { useCallback, useMemo, useState } from 'react';
+import { Upload, X, FileImage, FileText, ChevronLeft, ChevronRight, Plus } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { compressImage, formatBytes, CompressionOptions, DEFAULT_COMPRESSION_OPTIONS } from '@/lib/imageCompression';
+import { isPdf, renderPdfPages, PDF_CONTENT_TYPE } from '@/lib/pdf';
+import { PdfPageLink } from '@/lib/firebase';
 
-interface ImageUploadProps {
+interface BaseImageUploadProps {
   label: string;
+  accept?: string;
+  /** Pre-processing applied before `onChange`; pass `false` to keep the original file */
+  compression?: Partial<CompressionOptions> | false;
+  /**
+   * Original PDFs as data URLs. PDFs are only accepted when `onDocumentsChange`
+   * is given; their pages are rendered to images and added to the value.
+   */
+  documents?: string[];
+  onDocumentsChange?: (documents: string[]) => void;
+  /** Pages rendered from each document; a document and its pages are removed together */
+  pdfPages?: PdfPageLink[];
+  onPdfPagesChange?: (links: PdfPageLink[]) => void;
+}
+
+interface SingleImageUploadProps extends BaseImageUploadProps {
+  multiple?: false;
   value: string;
   onChange: (value: string) => void;
-  accept?: string;
 }
 
-export const ImageUpload: React.FC<ImageUploadProps> = ({
-  label,
-  value,
-  onChange,
-  accept = "image/*"
-}) => {
+/** Multi-page mode: an ordered list of pages that can be appended to and reordered */
+interface MultiImageUploadProps extends BaseImageUploadProps {
+  multiple: true;
+  value: string[];
+  onChange: (value: string[]) => void;
+}
+
+type ImageUploadProps = SingleImageUploadProps | MultiImageUploadProps;
+
+const isMultiple = (props: ImageUploadProps): props is MultiImageUploadProps => props.multiple === true;
+
+interface SizeInfo {
+  originalSize: number;
+  compressedSize: number;
+  width: number;
+  height: number;
+}
+
+export const ImageUpload: React.FC<ImageUploadProps> = (props) => {
+  const {
+    label,
+    compression = DEFAULT_COMPRESSION_OPTIONS,
+    documents = [],
+    onDocumentsChange,
+    pdfPages = [],
+    onPdfPagesChange
+  } = props;
+  const acceptsPdf = Boolean(onDocumentsChange);
+  const accept = props.accept ?? (acceptsPdf ? `image/*,${PDF_CONTENT_TYPE}` : 'image/*');
   const [isDragging, setIsDragging] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  // Keyed by the page's data URL so the info follows the page when reordered
+  const [sizeInfo, setSizeInfo] = useState<Record<string, SizeInfo>>({});
+
+  const multiple = isMultiple(props);
+  const pages = useMemo(() => {
+    if (isMultiple(props)) return props.value;
+    return props.value ? [props.value] : [];
+  }, [props]);
 
-  const convertToBase64 = (file: File): Promise<string> => {
+  const emitPages = useCallback((next: string[]) => {
+    if (isMultiple(props)) {
+      props.onChange(next);
+    } else {
+      props.onChange(next[0] ?? '');
+    }
+  }, [props]);
+
+  const convertToBase64 = (file: Blob): Promise<string> => {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
       reader.onload = () => {
@@ -34,31 +91,75 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({
     });
   };
 
-  const handleFileUpload = useCallback(async (file: File) => {
-    if (!file.type.startsWith('image/')) {
-      alert('Por favor, selecione apenas arquivos de imagem.');
+  const handleFileUpload = useCallback(async (files: File[]) => {
+    const selected = multiple ? files : files.slice(0, 1);
+    if (selected.some(file => !file.type.startsWith('image/') && !(acceptsPdf && isPdf(file)))) {
+      alert(acceptsPdf
+        ? 'Por favor, selecione apenas arquivos de imagem ou PDF.'
+        : 'Por favor, selecione apenas arquivos de imagem.');
       return;
     }
 
     setIsLoading(true);
     try {
-      const base64 = await convertToBase64(file);
-      onChange(base64);
+      const uploaded: string[] = [];
+      const uploadedDocuments: string[] = [];
+      const links: PdfPageLink[] = [];
+      const info: Record<string, SizeInfo> = {};
+      // Each image with the document it was rendered from, if any
+      const images: { image: Blob; pdf: string | null }[] = [];
+
+      for (const file of selected) {
+        if (isPdf(file)) {
+          const longEdge = (compression && compression.maxLongEdge) || DEFAULT_COMPRESSION_OPTIONS.maxLongEdge;
+          const pdf = await convertToBase64(file);
+          images.push(...(await renderPdfPages(file, longEdge)).map(image => ({ image, pdf })));
+          uploadedDocuments.push(pdf);
+        } else {
+          images.push({ image: file, pdf: null });
+        }
+      }
+
+      for (const { image, pdf } of multiple ? images : images.slice(0, 1)) {
+        let dataUrl: string;
+        if (compression === false) {
+          dataUrl = await convertToBase64(image);
+        } else {
+          const result = await compressImage(image, compression);
+          dataUrl = await convertToBase64(result.blob);
+          info[dataUrl] = {
+            originalSize: result.originalSize,
+            compressedSize: result.compressedSize,
+            width: result.width,
+            height: result.height
+          };
+        }
+        uploaded.push(dataUrl);
+        if (pdf) links.push({ page: dataUrl, pdf });
+      }
+
+      setSizeInfo(prev => ({ ...prev, ...info }));
+      emitPages(multiple ? [...pages, ...uploaded] : uploaded);
+      // A single image replaces the previous one along with its document
+      if (acceptsPdf && (!multiple || uploadedDocuments.length > 0)) {
+        onDocumentsChange(multiple ? [...documents, ...uploadedDocuments] : uploadedDocuments);
+        onPdfPagesChange?.(multiple ? [...pdfPages, ...links] : links);
+      }
     } catch (error) {
       console.error('Error converting file:', error);
-      alert('Erro ao processar a imagem. Tente novamente.');
+      alert('Erro ao processar o arquivo. Tente novamente.');
     } finally {
       setIsLoading(false);
     }
-  }, [onChange]);
+  }, [multiple, pages, documents, pdfPages, acceptsPdf, onDocumentsChange, onPdfPagesChange, compression, emitPages]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    
+
     const files = Array.from(e.dataTransfer.files);
     if (files.length > 0) {
-      handleFileUpload(files[0]);
+      handleFileUpload(files);
     }
   }, [handleFileUpload]);
 
@@ -75,22 +176,71 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({
   const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files && files.length > 0) {
-      handleFileUpload(files[0]);
+      handleFileUpload(Array.from(files));
     }
+    // Allow selecting the same file again after removing it
+    e.target.value = '';
   }, [handleFileUpload]);
 
   const clearImage = () => {
-    onChange('');
+    setSizeInfo({});
+    emitPages([]);
+    onDocumentsChange?.([]);
+    onPdfPagesChange?.([]);
+  };
+
+  const getRenderedPages = (pdf: string) => pdfPages.filter(link => link.pdf === pdf).map(link => link.page);
+
+  const removeDocument = (index: number) => {
+    const pdf = documents[index];
+    const rendered = getRenderedPages(pdf);
+    emitPages(pages.filter(page => !rendered.includes(page)));
+    onDocumentsChange(documents.filter((_, i) => i !== index));
+    onPdfPagesChange?.(pdfPages.filter(link => link.pdf !== pdf));
+  };
+
+  const removePage = (index: number) => {
+    const page = pages[index];
+    emitPages(pages.filter((_, i) => i !== index));
+
+    const link = pdfPages.find(item => item.page === page);
+    if (!link) return;
+    const links = pdfPages.filter(item => item !== link);
+    onPdfPagesChange?.(links);
+    // A document without any of its pages left goes as well
+    if (!links.some(item => item.pdf === link.pdf)) {
+      onDocumentsChange(documents.filter(pdf => pdf !== link.pdf));
+    }
+  };
+
+  const movePage = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= pages.length) return;
+
+    const next = [...pages];
+    [next[index], next[target]] = [next[target], next[index]];
+    emitPages(next);
+  };
+
+  const renderSizeInfo = (page: string) => {
+    const info = sizeInfo[page];
+    if (!info) return null;
+
+    return (
+      <p className="text-xs text-muted-foreground text-center">
+        {formatBytes(info.originalSize)} → {formatBytes(info.compressedSize)} ({info.width}×{info.height} px)
+      </p>
+    );
   };
 
   return (
     <div className="space-y-2">
       <label className="text-sm font-medium text-foreground">{label}</label>
-      <Card 
+      <Card
         className={`
           relative overflow-hidden transition-all duration-300
           ${isDragging ? 'border-primary bg-medical-accent scale-[1.02]' : 'border-border'}
-          ${value ? 'border-success' : ''}
+          ${pages.length > 0 ? 'border-success' : ''}
           hover:shadow-md cursor-pointer
         `}
         style={{ boxShadow: isDragging ? 'var(--shadow-upload)' : 'var(--shadow-card)' }}
@@ -101,13 +251,15 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({
           onDragOver={handleDragOver}
           onDragLeave={handleDragLeave}
         >
-          {value ? (
+          {pages.length > 0 ? (
             <div className="space-y-4">
               <div className="flex items-center justify-between">
                 <div className="flex items-center space-x-2">
                   <FileImage className="h-5 w-5 text-success" />
                   <span className="text-sm text-success font-medium">
-                    Imagem carregada
+                    {multiple
+                      ? `${pages.length} ${pages.length === 1 ? 'página carregada' : 'páginas carregadas'}`
+                      : 'Imagem carregada'}
                   </span>
                 </div>
                 <Button
@@ -119,13 +271,110 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({
                   <X className="h-4 w-4 text-destructive" />
                 </Button>
               </div>
-              <div className="flex justify-center">
-                <img 
-                  src={value} 
-                  alt="Preview" 
-                  className="max-h-32 max-w-full object-contain rounded border"
-                />
-              </div>
+              {multiple ? (
+                <>
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                    {pages.map((page, index) => (
+                      <div key={`${index}-${page.slice(-32)}`} className="space-y-1">
+                        <div className="relative">
+                          <img
+                            src={page}
+                            alt={`Página ${index + 1}`}
+                            className="h-24 w-full object-contain rounded border bg-background"
+                          />
+                          <span className="absolute top-1 left-1 rounded bg-background/90 px-1.5 text-xs font-medium">
+                            {index + 1}
+                          </span>
+                        </div>
+                        <div className="flex items-center justify-center space-x-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => movePage(index, -1)}
+                            disabled={index === 0}
+                            className="h-6 w-6 p-0"
+                            aria-label="Mover para a esquerda"
+                          >
+                            <ChevronLeft className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => movePage(index, 1)}
+                            disabled={index === pages.length - 1}
+                            className="h-6 w-6 p-0"
+                            aria-label="Mover para a direita"
+                          >
+                            <ChevronRight className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => removePage(index)}
+                            className="h-6 w-6 p-0 hover:bg-destructive/10"
+                            aria-label="Remover página"
+                          >
+                            <X className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                        {renderSizeInfo(page)}
+                      </div>
+                    ))}
+                  </div>
+                  <div className="relative flex justify-center">
+                    <Button variant="outline" size="sm" disabled={isLoading}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Adicionar páginas
+                    </Button>
+                    <input
+                      type="file"
+                      accept={accept}
+                      multiple
+                      onChange={handleFileSelect}
+                      className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                      disabled={isLoading}
+                    />
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div className="flex justify-center">
+                    <img
+                      src={pages[0]}
+                      alt="Preview"
+                      className="max-h-32 max-w-full object-contain rounded border"
+                    />
+                  </div>
+                  {renderSizeInfo(pages[0])}
+                </>
+              )}
+              {documents.length > 0 && (
+                <ul className="space-y-1">
+                  {documents.map((pdf, index) => {
+                    const pageCount = getRenderedPages(pdf).length;
+                    return (
+                      <li key={index} className="flex items-center justify-between rounded border px-2 py-1">
+                        <div className="flex items-center space-x-2">
+                          <FileText className="h-4 w-4 text-primary" />
+                          <span className="text-xs text-foreground">
+                            PDF original {documents.length > 1 ? index + 1 : ''}
+                            {pageCount > 0 && ` · ${pageCount} ${pageCount === 1 ? 'página' : 'páginas'}`}
+                          </span>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeDocument(index)}
+                          className="h-6 w-6 p-0 hover:bg-destructive/10"
+                          aria-label="Remover PDF original e suas páginas"
+                        >
+                          <X className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
             </div>
           ) : (
             <div className="text-center space-y-4">
@@ -136,22 +385,25 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({
               </div>
               <div className="space-y-2">
                 <p className="text-sm text-foreground font-medium">
-                  {isDragging ? 'Solte a imagem aqui' : 'Arraste uma imagem ou clique para selecionar'}
+                  {isDragging
+                    ? (multiple ? 'Solte as imagens aqui' : 'Solte a imagem aqui')
+                    : (multiple ? 'Arraste uma ou mais imagens ou clique para selecionar' : 'Arraste uma imagem ou clique para selecionar')}
                 </p>
                 <p className="text-xs text-muted-foreground">
-                  Formatos suportados: JPG, PNG, GIF
+                  Formatos suportados: JPG, PNG, WebP{compression !== false ? ', GIF (convertido)' : ''}{acceptsPdf ? ', PDF' : ''}
                 </p>
               </div>
               <input
                 type="file"
                 accept={accept}
+                multiple={multiple}
                 onChange={handleFileSelect}
                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                 disabled={isLoading}
               />
             </div>
           )}
-          
+
           {isLoading && (
             <div className="absolute inset-0 bg-white/80 flex items-center justify-center">
               <div className="flex items-center space-x-2">
@@ -164,4 +416,4 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({
       </Card>
     </div>
   );
-};
\ No newline at end of file
+};
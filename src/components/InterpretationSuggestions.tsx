@@ -0,0 +1,69 @@
+import React from 'react';
+import { Cpu, Plus, Check } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { EcgMeasurements } from '@/lib/measurements';
+import { interpretMeasurements, labelStatement } from '@/lib/interpretation';
+
+interface InterpretationSuggestionsProps {
+  measurements: EcgMeasurements;
+  /** Current description, used to mark statements already inserted */
+  description: string;
+  /** Receives the statement with its computer-generated label */
+  onInsert: (statement: string) => void;
+}
+
+export const InterpretationSuggestions: React.FC<InterpretationSuggestionsProps> = ({
+  measurements,
+  description,
+  onInsert
+}) => {
+  const statements = interpretMeasurements(measurements);
+
+  return (
+    <div className="space-y-3 rounded-md border border-dashed p-3">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center space-x-2 text-sm font-medium text-foreground">
+          <Cpu className="h-4 w-4 text-primary" />
+          <span>Sugestões</span>
+        </span>
+        <Badge variant="secondary">Gerado por computador</Badge>
+      </div>
+
+      {statements.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Nenhuma sugestão. As sugestões são geradas a partir das medidas informadas.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {statements.map(({ ruleId, statement, rule }) => {
+            const labelled = labelStatement(statement);
+            const inserted = description.includes(labelled);
+            return (
+              <li key={ruleId} className="flex items-start justify-between gap-2">
+                <div>
+                  <p className="text-sm text-foreground">{statement}</p>
+                  <p className="text-xs text-muted-foreground">Regra: {rule}</p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 shrink-0"
+                  onClick={() => onInsert(labelled)}
+                  disabled={inserted}
+                >
+                  {inserted ? <Check className="h-3 w-3 mr-1" /> : <Plus className="h-3 w-3 mr-1" />}
+                  {inserted ? 'Inserido' : 'Inserir'}
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Interpretação preliminar automática; requer revisão médica. O texto inserido leva a marca "Gerado por computador".
+      </p>
+    </div>
+  );
+};
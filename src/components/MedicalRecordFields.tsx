@@ -0,0 +1,151 @@
+import React from 'react';
+import { useFormContext } from 'react-hook-form';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Textarea } from '@/components/ui/textarea';
+import { ImageUpload } from '@/components/ImageUpload';
+import { SignalUpload } from '@/components/SignalUpload';
+import { EcgMeasurementsForm } from '@/components/EcgMeasurementsForm';
+import { InterpretationSuggestions } from '@/components/InterpretationSuggestions';
+import { DiagnosisPicker } from '@/components/DiagnosisPicker';
+import { PatientSelector } from '@/components/PatientSelector';
+import { ImageField, MedicalRecord, pdfFieldOf, pdfPagesFieldOf } from '@/lib/firebase';
+import { EcgMeasurements } from '@/lib/measurements';
+
+interface MedicalRecordFieldsProps {
+  signalLabel: string;
+}
+
+/**
+ * Fields of the record form, bound to the surrounding react-hook-form
+ * context. Validation comes from the form's resolver; messages show inline.
+ */
+export const MedicalRecordFields: React.FC<MedicalRecordFieldsProps> = ({ signalLabel }) => {
+  const form = useFormContext<MedicalRecord>();
+  const { errors, isSubmitted } = form.formState;
+  // Before the first submit, fields are validated on submit only
+  const setOptions = { shouldDirty: true, shouldValidate: isSubmitted };
+
+  const measurementErrors: Partial<Record<keyof EcgMeasurements, string>> = {};
+  for (const [field, error] of Object.entries(errors.measurements ?? {})) {
+    if (error && typeof error === 'object' && 'message' in error) {
+      measurementErrors[field as keyof EcgMeasurements] = String(error.message);
+    }
+  }
+
+  const renderPages = (name: ImageField, label: string) => {
+    const pdfField = pdfFieldOf(name);
+    const pdfPagesField = pdfPagesFieldOf(name);
+    return (
+      <FormField
+        control={form.control}
+        name={name}
+        render={({ field }) => (
+          <FormItem>
+            <ImageUpload
+              label={label}
+              multiple
+              value={field.value}
+              onChange={field.onChange}
+              documents={form.watch(pdfField)}
+              onDocumentsChange={(value) => form.setValue(pdfField, value, setOptions)}
+              pdfPages={form.watch(pdfPagesField)}
+              onPdfPagesChange={(value) => form.setValue(pdfPagesField, value, setOptions)}
+            />
+            <FormMessage />
+            {errors[pdfField] && (
+              <p className="text-sm font-medium text-destructive">{errors[pdfField].message}</p>
+            )}
+          </FormItem>
+        )}
+      />
+    );
+  };
+
+  const measurements = form.watch('measurements');
+  const descricao = form.watch('descricao');
+
+  return (
+    <>
+      <FormField
+        control={form.control}
+        name="patient"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Paciente</FormLabel>
+            <PatientSelector value={field.value} onChange={field.onChange} />
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {renderPages('ecg', 'ECG')}
+        {renderPages('laudo', 'Laudo')}
+      </div>
+
+      <FormField
+        control={form.control}
+        name="signal"
+        render={({ field }) => (
+          <FormItem>
+            <SignalUpload label={signalLabel} value={field.value} onChange={field.onChange} />
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name="measurements"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Medidas</FormLabel>
+            <EcgMeasurementsForm value={field.value} onChange={field.onChange} errors={measurementErrors} />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name="diagnoses"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Diagnósticos codificados</FormLabel>
+            <DiagnosisPicker value={field.value} onChange={field.onChange} />
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <FormField
+          control={form.control}
+          name="descricao"
+          render={({ field }) => (
+            <FormItem className="md:col-span-2">
+              <FormLabel>Descrição</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder="Descreva os detalhes relevantes do exame..."
+                  className="min-h-[100px] transition-all duration-200 focus:shadow-md"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <InterpretationSuggestions
+          measurements={measurements}
+          description={descricao}
+          onInsert={(statement) => form.setValue(
+            'descricao',
+            descricao.trim() ? `${descricao.trimEnd()}\n${statement}` : statement,
+            setOptions
+          )}
+        />
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,302 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Loader2, Search, User, UserPlus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useUserRole } from '@/hooks/use-user-role';
+import { useRepositories } from '@/hooks/use-firebase';
+import { format, parseISO } from 'date-fns';
+import { getPatientAge, isDuplicateIdentifierError, Patient, PatientRow, PatientSex, SEX_LABELS } from '@/lib/patients';
+import { displayIdentifier, IDENTIFIER_LABELS, IDENTIFIER_RULES, onlyDigits, PatientIdentifier } from '@/lib/identifiers';
+
+interface PatientSelectorProps {
+  value: PatientRow | null;
+  onChange: (patient: PatientRow | null) => void;
+}
+
+const SEARCH_DELAY_MS = 300;
+
+const EMPTY_PATIENT: Patient = {
+  name: '',
+  birthDate: '',
+  sex: 'female',
+  internalId: '',
+  cpf: '',
+  cns: ''
+};
+
+const IDENTIFIERS: PatientIdentifier[] = ['cpf', 'cns'];
+
+// Complete but failing the check digits; incomplete input is reported only on submit
+const isInvalidIdentifier = (type: PatientIdentifier, value: string | null) => {
+  const digits = onlyDigits(value ?? '');
+  return digits.length === IDENTIFIER_RULES[type].length && !IDENTIFIER_RULES[type].isValid(digits);
+};
+
+export const PatientSelector: React.FC<PatientSelectorProps> = ({ value, onChange }) => {
+  const { toast } = useToast();
+  const { isPrivileged } = useUserRole();
+  const { patients } = useRepositories();
+  const [term, setTerm] = useState('');
+  const [results, setResults] = useState<PatientRow[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [draft, setDraft] = useState<Patient>(EMPTY_PATIENT);
+
+  useEffect(() => {
+    if (value || !term.trim() || !patients) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const found = await patients.search(term);
+        if (!cancelled) setResults(found);
+      } catch (error) {
+        console.error('Error searching patients in Firestore:', error);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [term, value, patients]);
+
+  const startCreating = () => {
+    // Most searches are by name, so carry the typed text into the new patient
+    setDraft({ ...EMPTY_PATIENT, name: term.trim() });
+    setIsCreating(true);
+  };
+
+  const handleCreate = async () => {
+    if (!draft.name.trim() || !draft.birthDate || !draft.internalId.trim()) {
+      toast({
+        title: "Campos obrigatórios",
+        description: "Informe nome, data de nascimento e ID interno do paciente",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const invalid = IDENTIFIERS.find(type => draft[type] && !IDENTIFIER_RULES[type].isValid(draft[type]));
+    if (invalid) {
+      toast({
+        title: `${IDENTIFIER_LABELS[invalid]} inválido`,
+        description: `Confira os dígitos do ${IDENTIFIER_LABELS[invalid]} informado`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (!patients) {
+        throw new Error('Credenciais não encontradas');
+      }
+
+      // Also finds patients registered before identifiers were indexed;
+      // uniqueness itself is enforced by `create`
+      for (const type of IDENTIFIERS) {
+        const existing = draft[type] ? await patients.findByIdentifier(type, draft[type]) : null;
+        if (existing) {
+          toast({
+            title: `${IDENTIFIER_LABELS[type]} já cadastrado`,
+            description: `Este ${IDENTIFIER_LABELS[type]} pertence a ${existing.name}. Busque o paciente existente.`,
+            variant: "destructive"
+          });
+          return;
+        }
+      }
+
+      const patient = await patients.create(draft);
+      onChange(patient);
+      setIsCreating(false);
+      setTerm('');
+      toast({
+        title: "Paciente cadastrado",
+        description: `${patient.name} foi adicionado ao Firestore.`,
+        variant: "default"
+      });
+    } catch (error) {
+      // Registered by someone else since the check above
+      if (isDuplicateIdentifierError(error)) {
+        const existing = await patients.get(error.patientId).catch(() => null);
+        toast({
+          title: `${IDENTIFIER_LABELS[error.identifier]} já cadastrado`,
+          description: `Este ${IDENTIFIER_LABELS[error.identifier]} pertence a ${existing?.name ?? 'outro paciente'}. Busque o paciente existente.`,
+          variant: "destructive"
+        });
+        return;
+      }
+      console.error('Error creating patient in Firestore:', error);
+      toast({
+        title: "Erro ao cadastrar",
+        description: "Não foi possível cadastrar o paciente. Verifique suas permissões.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (value) {
+    const age = getPatientAge(value);
+    return (
+      <div className="flex items-center justify-between rounded-md border p-3">
+        <div className="flex items-center space-x-3">
+          <User className="h-5 w-5 text-primary" />
+          <div>
+            <Link to={`/patients/${value.id}`} className="text-sm font-medium text-foreground hover:underline">
+              {value.name}
+            </Link>
+            <p className="text-xs text-muted-foreground">
+              ID {value.internalId} · {SEX_LABELS[value.sex]}
+              {value.birthDate && ` · ${format(parseISO(value.birthDate), 'dd/MM/yyyy')}`}
+              {age !== null && ` (${age} anos)`}
+            </p>
+            {(value.cpf || value.cns) && (
+              <p className="text-xs text-muted-foreground">
+                {IDENTIFIERS.filter(type => value[type])
+                  .map(type => `${IDENTIFIER_LABELS[type]} ${displayIdentifier(type, value[type], isPrivileged)}`)
+                  .join(' · ')}
+              </p>
+            )}
+          </div>
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => onChange(null)}>
+          <X className="h-4 w-4 mr-1" />
+          Trocar
+        </Button>
+      </div>
+    );
+  }
+
+  if (isCreating) {
+    return (
+      <div className="space-y-4 rounded-md border p-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="patient-name">Nome *</Label>
+            <Input
+              id="patient-name"
+              value={draft.name}
+              onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="patient-birth-date">Data de nascimento *</Label>
+            <Input
+              id="patient-birth-date"
+              type="date"
+              value={draft.birthDate}
+              onChange={(e) => setDraft(prev => ({ ...prev, birthDate: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Sexo *</Label>
+            <Select value={draft.sex} onValueChange={(sex) => setDraft(prev => ({ ...prev, sex: sex as PatientSex }))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SEX_LABELS) as PatientSex[]).map(sex => (
+                  <SelectItem key={sex} value={sex}>{SEX_LABELS[sex]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="patient-internal-id">ID interno *</Label>
+            <Input
+              id="patient-internal-id"
+              value={draft.internalId}
+              onChange={(e) => setDraft(prev => ({ ...prev, internalId: e.target.value }))}
+            />
+          </div>
+          {IDENTIFIERS.map(type => (
+            <div key={type} className="space-y-2">
+              <Label htmlFor={`patient-${type}`}>{IDENTIFIER_LABELS[type]}</Label>
+              <Input
+                id={`patient-${type}`}
+                inputMode="numeric"
+                placeholder={type === 'cpf' ? '000.000.000-00' : '000 0000 0000 0000'}
+                value={IDENTIFIER_RULES[type].format(draft[type] ?? '')}
+                onChange={(e) => setDraft(prev => ({ ...prev, [type]: onlyDigits(e.target.value).slice(0, IDENTIFIER_RULES[type].length) }))}
+                className={isInvalidIdentifier(type, draft[type]) ? 'border-destructive focus-visible:ring-destructive' : ''}
+              />
+              {isInvalidIdentifier(type, draft[type]) && (
+                <p className="text-xs text-destructive">{IDENTIFIER_LABELS[type]} inválido</p>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={() => setIsCreating(false)} disabled={isSaving}>
+            Cancelar
+          </Button>
+          <Button onClick={handleCreate} disabled={isSaving}>
+            {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <UserPlus className="h-4 w-4 mr-2" />}
+            Cadastrar paciente
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          placeholder="Buscar paciente por nome, ID interno, CPF ou CNS..."
+          value={term}
+          onChange={(e) => setTerm(e.target.value)}
+          className="pl-9"
+        />
+        {isSearching && (
+          <Loader2 className="absolute right-3 top-1/2 h-4 w-4 -translate-y-1/2 animate-spin text-primary" />
+        )}
+      </div>
+
+      {results.length > 0 && (
+        <ul className="divide-y rounded-md border">
+          {results.map(patient => (
+            <li key={patient.id}>
+              <button
+                type="button"
+                onClick={() => onChange(patient)}
+                className="w-full px-3 py-2 text-left hover:bg-muted/50"
+              >
+                <p className="text-sm text-foreground">{patient.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  ID {patient.internalId}
+                  {patient.cpf && ` · CPF ${displayIdentifier('cpf', patient.cpf, isPrivileged)}`}
+                  {patient.birthDate && ` · ${format(parseISO(patient.birthDate), 'dd/MM/yyyy')}`}
+                </p>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {term.trim() && !isSearching && results.length === 0 && (
+        <p className="text-xs text-muted-foreground">Nenhum paciente encontrado.</p>
+      )}
+
+      <Button variant="outline" size="sm" onClick={startCreating}>
+        <UserPlus className="h-4 w-4 mr-2" />
+        Cadastrar novo paciente
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React from 'react';
+import { ChevronDown, Database, FlaskConical, Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useFirebase } from '@/hooks/use-firebase';
+import { describeProfile } from '@/lib/connectionProfiles';
+
+/** Header menu showing where data is read from and switching between connection profiles. */
+export const ProfileSwitcher: React.FC = () => {
+  const { profiles, activeProfile, switchProfile, isDemo, isLocked } = useFirebase();
+
+  const trigger = isDemo ? (
+    <>
+      <FlaskConical className="h-4 w-4 text-primary" />
+      <span className="font-medium">Modo demonstração</span>
+    </>
+  ) : isLocked ? (
+    <>
+      <Lock className="h-4 w-4 text-primary" />
+      <span className="font-medium">Credenciais bloqueadas</span>
+    </>
+  ) : (
+    <>
+      <Database className="h-4 w-4 text-primary" />
+      <span className="font-medium">{activeProfile?.name ?? 'Sem perfil'}</span>
+      {activeProfile && (
+        <span className="hidden sm:inline text-muted-foreground">{describeProfile(activeProfile)}</span>
+      )}
+    </>
+  );
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center space-x-2">
+          {trigger}
+          <ChevronDown className="h-4 w-4 text-muted-foreground" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-72">
+        <DropdownMenuLabel>Perfil de conexão</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {profiles.length === 0 ? (
+          <p className="px-2 py-1.5 text-sm text-muted-foreground">
+            {isLocked ? 'Desbloqueie as credenciais para ver os perfis.' : 'Nenhum perfil. Crie um na aba Configurações.'}
+          </p>
+        ) : (
+          <DropdownMenuRadioGroup value={activeProfile?.id ?? ''} onValueChange={switchProfile}>
+            {profiles.map(profile => (
+              <DropdownMenuRadioItem key={profile.id} value={profile.id} className="flex flex-col items-start">
+                <span>{profile.name}</span>
+                <span className="text-xs text-muted-foreground">{describeProfile(profile)}</span>
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+        )}
+        {isDemo && (
+          <>
+            <DropdownMenuSeparator />
+            <p className="px-2 py-1.5 text-xs text-muted-foreground">
+              O modo demonstração está ativo; o perfil só é usado ao desativá-lo.
+            </p>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,25 @@
+import React from 'react';
+import { RecordImage } from '@/lib/firebase';
+import { getImageUrl, getRecordImages } from '@/lib/storage';
+
+interface RecordThumbnailProps {
+  images: RecordImage[] | RecordImage;
+  alt: string;
+}
+
+/** First page of a record's images, with a count of the remaining pages. */
+export const RecordThumbnail: React.FC<RecordThumbnailProps> = ({ images, alt }) => {
+  const pages = getRecordImages(images);
+  if (pages.length === 0) return null;
+
+  return (
+    <div className="relative w-20">
+      <img src={getImageUrl(pages[0])} alt={alt} className="h-16 w-20 object-cover rounded border" />
+      {pages.length > 1 && (
+        <span className="absolute bottom-1 right-1 rounded bg-background/90 px-1 text-xs font-medium">
+          +{pages.length - 1}
+        </span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import React, { useCallback, useState } from 'react';
+import { Upload, X, Activity } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { EcgSignalPreview } from '@/components/EcgSignalPreview';
+import { EcgSignal, getSignalDuration, SIGNAL_FORMAT_LABELS } from '@/lib/signal';
+import { importSignalFiles, SIGNAL_FILE_ACCEPT } from '@/lib/signalImport';
+
+interface SignalUploadProps {
+  label: string;
+  value: EcgSignal | null;
+  onChange: (value: EcgSignal | null) => void;
+}
+
+export const SignalUpload: React.FC<SignalUploadProps> = ({
+  label,
+  value,
+  onChange
+}) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleFileUpload = useCallback(async (files: File[]) => {
+    setIsLoading(true);
+    try {
+      onChange(await importSignalFiles(files));
+    } catch (error) {
+      console.error('Error importing signal:', error);
+      alert(error instanceof Error ? error.message : 'Erro ao importar o sinal. Tente novamente.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [onChange]);
+
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) {
+      handleFileUpload(files);
+    }
+  }, [handleFileUpload]);
+
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(true);
+  }, []);
+
+  const handleDragLeave = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+  }, []);
+
+  const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (files && files.length > 0) {
+      handleFileUpload(Array.from(files));
+    }
+    e.target.value = '';
+  }, [handleFileUpload]);
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-foreground">{label}</label>
+      <Card
+        className={`
+          relative overflow-hidden transition-all duration-300
+          ${isDragging ? 'border-primary bg-medical-accent scale-[1.02]' : 'border-border'}
+          ${value ? 'border-success' : ''}
+          hover:shadow-md cursor-pointer
+        `}
+        style={{ boxShadow: isDragging ? 'var(--shadow-upload)' : 'var(--shadow-card)' }}
+      >
+        <div
+          className="p-6"
+          onDrop={handleDrop}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+        >
+          {value ? (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <Activity className="h-5 w-5 text-success" />
+                  <span className="text-sm text-success font-medium">
+                    {SIGNAL_FORMAT_LABELS[value.format]} · {value.leads.length} derivações · {value.samplingRate} Hz · {getSignalDuration(value).toFixed(1)} s
+                  </span>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onChange(null)}
+                  className="h-6 w-6 p-0 hover:bg-destructive/10"
+                >
+                  <X className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+              <EcgSignalPreview signal={value} />
+              {(value.metadata.acquiredAt || value.metadata.device) && (
+                <p className="text-xs text-muted-foreground">
+                  {[value.metadata.acquiredAt?.replace('T', ' '), value.metadata.device].filter(Boolean).join(' · ')}
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="text-center space-y-4">
+              <div className="mx-auto w-12 h-12 bg-gradient-to-br from-primary/20 to-primary-glow/20 rounded-full flex items-center justify-center">
+                <Upload className={`h-6 w-6 transition-colors ${
+                  isDragging ? 'text-primary' : 'text-muted-foreground'
+                }`} />
+              </div>
+              <div className="space-y-2">
+                <p className="text-sm text-foreground font-medium">
+                  {isDragging ? 'Solte os arquivos aqui' : 'Arraste um arquivo de sinal ou clique para selecionar'}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Formatos suportados: HL7 aECG (.xml), SCP-ECG (.scp), WFDB (.hea + .dat)
+                </p>
+              </div>
+              <input
+                type="file"
+                accept={SIGNAL_FILE_ACCEPT}
+                multiple
+                onChange={handleFileSelect}
+                className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                disabled={isLoading}
+              />
+            </div>
+          )}
+
+          {isLoading && (
+            <div className="absolute inset-0 bg-white/80 flex items-center justify-center">
+              <div className="flex items-center space-x-2">
+                <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+                <span className="text-sm text-primary font-medium">Importando...</span>
+              </div>
+            </div>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+};
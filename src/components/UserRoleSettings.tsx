@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, UserCog } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useUserRole } from '@/hooks/use-user-role';
+import { isPrivilegedRole, USER_ROLE_LABELS, UserRole } from '@/lib/userRoles';
+
+export const UserRoleSettings: React.FC = () => {
+  const { toast } = useToast();
+  const { role, setRole, isPrivileged, canGrantPrivileged } = useUserRole();
+  // Privileged role waiting for the passphrase
+  const [pendingRole, setPendingRole] = useState<UserRole | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isConfirming, setIsConfirming] = useState(false);
+
+  const closeDialog = () => {
+    setPendingRole(null);
+    setPassphrase('');
+    setError(null);
+  };
+
+  const handleRoleChange = async (next: UserRole) => {
+    if (isPrivilegedRole(next)) {
+      setPendingRole(next);
+      return;
+    }
+    try {
+      await setRole(next);
+    } catch (roleError) {
+      toast({
+        title: "Erro ao alterar perfil",
+        description: roleError instanceof Error ? roleError.message : String(roleError),
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleConfirm = async () => {
+    setIsConfirming(true);
+    setError(null);
+    try {
+      await setRole(pendingRole, passphrase);
+      closeDialog();
+    } catch (roleError) {
+      setError(roleError instanceof Error ? roleError.message : String(roleError));
+    } finally {
+      setIsConfirming(false);
+    }
+  };
+
+  return (
+    <Card className="border-primary/20" style={{ boxShadow: 'var(--shadow-card)' }}>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <UserCog className="h-5 w-5 text-primary" />
+          <span>Perfil de Acesso</span>
+        </CardTitle>
+        <CardDescription>
+          Define o que é exibido neste navegador. CPF e CNS dos pacientes aparecem mascarados, exceto para administradores.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Label>Perfil</Label>
+        <Select value={role} onValueChange={(value) => handleRoleChange(value as UserRole)}>
+          <SelectTrigger className="w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(USER_ROLE_LABELS) as UserRole[]).map(option => (
+              <SelectItem
+                key={option}
+                value={option}
+                disabled={isPrivilegedRole(option) && !canGrantPrivileged}
+              >
+                {USER_ROLE_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          {isPrivileged ? 'Identificadores exibidos por completo.' : 'Identificadores exibidos mascarados.'}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {canGrantPrivileged
+            ? 'O perfil Administrador pede a senha das credenciais.'
+            : 'Para usar o perfil Administrador, ative e desbloqueie a proteção por senha das credenciais.'}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          Não há login de usuários: ser Administrador significa apenas conhecer a senha compartilhada das credenciais deste navegador.
+        </p>
+      </CardContent>
+
+      <Dialog open={pendingRole !== null} onOpenChange={(open) => !open && closeDialog()}>
+        {pendingRole && (
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Perfil {USER_ROLE_LABELS[pendingRole]}</DialogTitle>
+              <DialogDescription>
+                Confirme a senha das credenciais para exibir CPF e CNS completos neste navegador.
+              </DialogDescription>
+            </DialogHeader>
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleConfirm();
+              }}
+            >
+              <div className="space-y-2">
+                <Label htmlFor="rolePassphrase">Senha</Label>
+                <Input
+                  id="rolePassphrase"
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  className={error ? 'border-destructive' : undefined}
+                  autoFocus
+                />
+                {error && <p className="text-xs text-destructive">{error}</p>}
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={closeDialog}>
+                  Cancelar
+                </Button>
+                <Button type="submit" disabled={!passphrase || isConfirming}>
+                  {isConfirming && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Confirmar
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        )}
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,77 @@
+import * as React from "react"
+import { FirebaseServices, FirestoreCredentials } from "@/lib/firebase"
+import { ConnectionProfile } from "@/lib/connectionProfiles"
+import { MedicalRecordRepository } from "@/lib/recordRepository"
+import { PatientRepository } from "@/lib/patients"
+import { UserRole } from "@/lib/userRoles"
+
+export interface FirebaseContextValue {
+  /** Saved credentials of the active profile, or null until the user configures them */
+  credentials: FirestoreCredentials | null
+  /** App and clients for the saved credentials; null in demo mode */
+  services: FirebaseServices | null
+  /** Persists new credentials in the active profile; the app is re-created only if they changed */
+  saveCredentials: (credentials: FirestoreCredentials) => void
+  profiles: ConnectionProfile[]
+  activeProfile: ConnectionProfile | null
+  switchProfile: (profileId: string) => void
+  /** Adds a profile and makes it active, copying the settings of `fromProfileId` if given */
+  createProfile: (name: string, fromProfileId?: string) => void
+  renameProfile: (profileId: string, name: string) => void
+  /** Removes a profile; deleting the active one activates the first remaining */
+  deleteProfile: (profileId: string) => void
+  /** Whether data comes from seeded in-memory repositories instead of Firebase */
+  isDemo: boolean
+  setDemoMode: (enabled: boolean) => void
+  /** Whether profiles are stored encrypted with a passphrase */
+  isEncrypted: boolean
+  /** Encrypted profiles not unlocked yet; until then there are no profiles or credentials */
+  isLocked: boolean
+  /** Minutes without interaction before locking again; 0 never locks */
+  autoLockMinutes: number
+  /** Decrypts the profiles; rejects with a readable message on a wrong passphrase */
+  unlock: (passphrase: string) => Promise<void>
+  /** Drops the decrypted profiles and key from memory */
+  lock: () => void
+  /** Starts storing the profiles encrypted with `passphrase` */
+  enableEncryption: (passphrase: string, autoLockMinutes: number) => Promise<void>
+  /** Goes back to storing the profiles unencrypted; only possible while unlocked */
+  disableEncryption: () => void
+  setAutoLockMinutes: (minutes: number) => void
+  /** Deletes the encrypted profiles, for when the passphrase is lost */
+  forgetEncryptedProfiles: () => void
+  /** Role chosen in this browser; privileged roles fall back to the default while locked */
+  role: UserRole
+  /**
+   * Changes the role chosen in this browser. Privileged roles need the
+   * profiles encrypted and the passphrase confirmed; rejects with a readable message.
+   */
+  setRole: (role: UserRole, passphrase?: string) => Promise<void>
+  /** Records of the active mode, or null until credentials are configured */
+  records: MedicalRecordRepository | null
+  /** Patients of the active mode, or null until credentials are configured */
+  patients: PatientRepository | null
+}
+
+export const FirebaseContext = React.createContext<FirebaseContextValue | null>(null)
+
+export function useFirebase() {
+  const context = React.useContext(FirebaseContext)
+  if (!context) {
+    throw new Error("useFirebase must be used within a <FirebaseProvider />")
+  }
+  return context
+}
+
+export function useFirestore() {
+  return useFirebase().services?.db ?? null
+}
+
+export function useFirebaseStorage() {
+  return useFirebase().services?.storage ?? null
+}
+
+export function useRepositories() {
+  const { records, patients } = useFirebase()
+  return { records, patients }
+}
@@ -0,0 +1,20 @@
+import { useFirebase } from "@/hooks/use-firebase"
+import { isPrivilegedRole } from "@/lib/userRoles"
+
+/**
+ * Access role of whoever is using this browser. There is no sign-in, so a
+ * privileged role only proves that the user knows the credential passphrase.
+ */
+export function useUserRole() {
+  const { role, setRole, isEncrypted, isLocked } = useFirebase()
+
+  return {
+    role,
+    setRole,
+    isPrivileged: isPrivilegedRole(role),
+    // Only privileged roles are behind the passphrase, so only they may change records
+    canEditRecords: isPrivilegedRole(role),
+    // Privileged roles are stored in, and confirmed against, the encrypted profiles
+    canGrantPrivileged: isEncrypted && !isLocked,
+  }
+}
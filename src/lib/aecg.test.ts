@@ -0,0 +1,95 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { parseAecg } from '@/lib/aecg';
+
+const lead = (code: string, digits: string, scale = '5', unit = 'uV') => `
+  <component>
+    <sequence>
+      <code code="${code}"/>
+      <value xsi:type="SLIST_PQ">
+        <origin value="0" unit="uV"/>
+        <scale value="${scale}" unit="${unit}"/>
+        <digits>${digits}</digits>
+      </value>
+    </sequence>
+  </component>`;
+
+const aecgDocument = (leads: string, increment = '<increment value="0.002" unit="s"/>') => `<?xml version="1.0" encoding="UTF-8"?>
+<AnnotatedECG xmlns="urn:hl7-org:v3" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <effectiveTime><low value="20240101000000"/></effectiveTime>
+  <componentOf>
+    <timepointEvent>
+      <componentOf>
+        <subjectAssignment>
+          <subject>
+            <trialSubject><id extension="PAC-001"/></trialSubject>
+          </subject>
+        </subjectAssignment>
+      </componentOf>
+    </timepointEvent>
+  </componentOf>
+  <component>
+    <series>
+      <effectiveTime><low value="20240131142530.000-0300"/></effectiveTime>
+      <author>
+        <seriesAuthor>
+          <manufacturedSeriesDevice><manufacturerModelName>MAC 2000</manufacturerModelName></manufacturedSeriesDevice>
+        </seriesAuthor>
+      </author>
+      <component>
+        <sequenceSet>
+          <component>
+            <sequence>
+              <code code="TIME_ABSOLUTE"/>
+              <value xsi:type="GLIST_TS">
+                <head value="20240131142530.000"/>
+                ${increment}
+              </value>
+            </sequence>
+          </component>
+          ${leads}
+        </sequenceSet>
+      </component>
+    </series>
+  </component>
+</AnnotatedECG>`;
+
+describe('parseAecg', () => {
+  it('reads the rhythm leads scaled to microvolts', () => {
+    const signal = parseAecg(aecgDocument(lead('MDC_ECG_LEAD_I', '1 -2 3') + lead('MDC_ECG_LEAD_AVR', '4 5 6', '0.001', 'mV')));
+
+    expect(signal.format).toBe('hl7-aecg');
+    expect(signal.samplingRate).toBe(500);
+    expect(signal.leads).toEqual([
+      { name: 'I', samples: [5, -10, 15] },
+      { name: 'aVR', samples: [4, 5, 6] }
+    ]);
+  });
+
+  it('prefers the series acquisition time and reads the device and subject', () => {
+    expect(parseAecg(aecgDocument(lead('MDC_ECG_LEAD_II', '0'))).metadata).toEqual({
+      acquiredAt: '2024-01-31T14:25:30',
+      device: 'MAC 2000',
+      patientId: 'PAC-001'
+    });
+  });
+
+  it('converts the sampling increment from milliseconds', () => {
+    const signal = parseAecg(aecgDocument(lead('MDC_ECG_LEAD_II', '0'), '<increment value="4" unit="ms"/>'));
+    expect(signal.samplingRate).toBe(250);
+  });
+
+  it('rejects other XML documents', () => {
+    expect(() => parseAecg('<ClinicalDocument/>')).toThrow('Arquivo não é um HL7 aECG válido');
+    expect(() => parseAecg('<AnnotatedECG')).toThrow('Arquivo não é um HL7 aECG válido');
+  });
+
+  it('rejects series without a sampling interval or leads', () => {
+    expect(() => parseAecg(aecgDocument(lead('MDC_ECG_LEAD_I', '1'), ''))).toThrow('intervalo de amostragem');
+    expect(() => parseAecg(aecgDocument(''))).toThrow('não contém derivações');
+  });
+
+  it('rejects unsupported units', () => {
+    expect(() => parseAecg(aecgDocument(lead('MDC_ECG_LEAD_I', '1', '1', 'kV')))).toThrow('Unidade não suportada no aECG: kV');
+  });
+});
@@ -0,0 +1,137 @@
+import { EcgLead, EcgSignal, EcgSignalMetadata, normalizeLeadName } from '@/lib/signal';
+
+// Conversion factors from the units used by aECG physical quantities
+const VOLTAGE_TO_MICROVOLTS: Record<string, number> = {
+  nV: 0.001,
+  uV: 1,
+  mV: 1000,
+  V: 1000000
+};
+
+const TIME_TO_SECONDS: Record<string, number> = {
+  us: 0.000001,
+  ms: 0.001,
+  s: 1
+};
+
+// aECG documents use the urn:hl7-org:v3 namespace, but exporters are not
+// consistent about prefixes, so elements are matched by local name only
+const children = (parent: Element, localName: string) => {
+  return Array.from(parent.children).filter(child => child.localName === localName);
+};
+
+const child = (parent: Element, localName: string) => children(parent, localName)[0];
+
+const descendant = (parent: Element, ...path: string[]) => {
+  let current: Element | undefined = parent;
+  for (const localName of path) {
+    current = current && child(current, localName);
+  }
+  return current;
+};
+
+const getTypedValue = (value: Element) => {
+  return value.getAttribute('xsi:type') ?? value.getAttributeNS('http://www.w3.org/2001/XMLSchema-instance', 'type') ?? '';
+};
+
+const parseQuantity = (element: Element | undefined, factors: Record<string, number>, fallbackUnit: string) => {
+  if (!element) return null;
+
+  const value = Number(element.getAttribute('value'));
+  const unit = element.getAttribute('unit') || fallbackUnit;
+  const factor = factors[unit];
+  if (!Number.isFinite(value) || factor === undefined) {
+    throw new Error(`Unidade não suportada no aECG: ${unit}`);
+  }
+  return value * factor;
+};
+
+// HL7 TS values look like 20240131142530.000-0300
+const parseHl7Timestamp = (value: string | null) => {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})(\d{2})?(\d{2})?(\d{2})?/);
+  if (!match) return undefined;
+
+  const [, year, month, day, hour = '00', minute = '00', second = '00'] = match;
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}`;
+};
+
+const parseLead = (sequence: Element, code: string): EcgLead => {
+  const value = child(sequence, 'value');
+  const origin = parseQuantity(child(value, 'origin'), VOLTAGE_TO_MICROVOLTS, 'uV') ?? 0;
+  const scale = parseQuantity(child(value, 'scale'), VOLTAGE_TO_MICROVOLTS, 'uV') ?? 1;
+  const digits = child(value, 'digits')?.textContent?.trim() ?? '';
+
+  return {
+    name: normalizeLeadName(code),
+    samples: digits ? digits.split(/\s+/).map(digit => origin + scale * Number(digit)) : []
+  };
+};
+
+const parseMetadata = (root: Element, series: Element): EcgSignalMetadata => {
+  const metadata: EcgSignalMetadata = {};
+
+  const acquiredAt = parseHl7Timestamp(descendant(series, 'effectiveTime', 'low')?.getAttribute('value'))
+    ?? parseHl7Timestamp(descendant(root, 'effectiveTime', 'low')?.getAttribute('value'));
+  if (acquiredAt) metadata.acquiredAt = acquiredAt;
+
+  const device = descendant(series, 'author', 'seriesAuthor', 'manufacturedSeriesDevice', 'manufacturerModelName')?.textContent?.trim();
+  if (device) metadata.device = device;
+
+  const subjectId = descendant(root, 'componentOf', 'timepointEvent', 'componentOf', 'subjectAssignment', 'subject', 'trialSubject', 'id');
+  const patientId = subjectId?.getAttribute('extension');
+  if (patientId) metadata.patientId = patientId;
+
+  return metadata;
+};
+
+/**
+ * Parses an HL7 v3 annotated ECG (aECG) XML document. Only the first rhythm
+ * series is read; derived series such as representative beats are ignored.
+ */
+export const parseAecg = (xml: string): EcgSignal => {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  const root = document.documentElement;
+  if (document.getElementsByTagName('parsererror').length > 0 || root.localName !== 'AnnotatedECG') {
+    throw new Error('Arquivo não é um HL7 aECG válido');
+  }
+
+  const series = children(root, 'component')
+    .map(component => child(component, 'series'))
+    .find(Boolean);
+  const sequenceSet = series && descendant(series, 'component', 'sequenceSet');
+  if (!sequenceSet) {
+    throw new Error('O aECG não contém uma série de ritmo');
+  }
+
+  let samplingRate = 0;
+  const leads: EcgLead[] = [];
+
+  for (const component of children(sequenceSet, 'component')) {
+    const sequence = child(component, 'sequence');
+    const code = sequence && child(sequence, 'code')?.getAttribute('code');
+    const value = sequence && child(sequence, 'value');
+    if (!code || !value) continue;
+
+    if (code.startsWith('TIME_')) {
+      const increment = parseQuantity(child(value, 'increment'), TIME_TO_SECONDS, 's');
+      if (increment) samplingRate = 1 / increment;
+    } else if (getTypedValue(value).endsWith('SLIST_PQ')) {
+      leads.push(parseLead(sequence, code));
+    }
+  }
+
+  if (!samplingRate) {
+    throw new Error('O aECG não informa o intervalo de amostragem');
+  }
+  if (leads.length === 0) {
+    throw new Error('O aECG não contém derivações');
+  }
+
+  return {
+    format: 'hl7-aecg',
+    samplingRate: Math.round(samplingRate * 1000) / 1000,
+    units: 'uV',
+    leads,
+    metadata: parseMetadata(root, series)
+  };
+};
@@ -0,0 +1,78 @@
+/** A point in the natural pixel space of a page image. */
+export interface ImagePoint {
+  x: number;
+  y: number;
+}
+
+export type CalibrationMethod = 'grid' | 'pulse';
+
+/**
+ * Scale of a scanned or photographed ECG page. Horizontal and vertical scales
+ * are kept apart because photos and some scanners do not keep pixels square.
+ */
+export interface ImageCalibration {
+  method: CalibrationMethod;
+  pxPerMmX: number;
+  pxPerMmY: number;
+  /** Paper speed the tracing was printed at, in mm/s */
+  paperSpeed: number;
+  /** Gain the tracing was printed at, in mm/mV */
+  gain: number;
+}
+
+export interface CaliperMeasurement {
+  id: string;
+  start: ImagePoint;
+  end: ImagePoint;
+}
+
+/** Calibration and calipers placed on one ECG page, identified by its URL. */
+export interface PageCalipers {
+  image: string;
+  calibration: ImageCalibration | null;
+  measurements: CaliperMeasurement[];
+}
+
+export const PAPER_SPEEDS = [25, 50];
+export const GAINS = [5, 10, 20];
+
+/** Size of the large grid square marked when calibrating by the grid. */
+export const GRID_SQUARE_MM = 5;
+
+/**
+ * Derives the page scale from two marked points. With the grid method they are
+ * opposite corners of a 5 mm square; with the pulse method they are the base
+ * and top of the 1 mV calibration pulse, which only fixes the vertical scale,
+ * so pixels are assumed to be square.
+ */
+export const calibrateFromPoints = (
+  method: CalibrationMethod,
+  start: ImagePoint,
+  end: ImagePoint,
+  paperSpeed: number,
+  gain: number
+): ImageCalibration | null => {
+  const dx = Math.abs(end.x - start.x);
+  const dy = Math.abs(end.y - start.y);
+
+  if (method === 'grid') {
+    if (dx < 1 || dy < 1) return null;
+    return { method, pxPerMmX: dx / GRID_SQUARE_MM, pxPerMmY: dy / GRID_SQUARE_MM, paperSpeed, gain };
+  }
+
+  if (dy < 1) return null;
+  const pxPerMm = dy / gain;
+  return { method, pxPerMmX: pxPerMm, pxPerMmY: pxPerMm, paperSpeed, gain };
+};
+
+/** Horizontal span of a caliper in milliseconds. */
+export const getCaliperDuration = (measurement: CaliperMeasurement, calibration: ImageCalibration) => {
+  const mm = Math.abs(measurement.end.x - measurement.start.x) / calibration.pxPerMmX;
+  return (mm / calibration.paperSpeed) * 1000;
+};
+
+/** Vertical span of a caliper in millivolts, positive when the end is higher. */
+export const getCaliperAmplitude = (measurement: CaliperMeasurement, calibration: ImageCalibration) => {
+  const mm = (measurement.start.y - measurement.end.y) / calibration.pxPerMmY;
+  return mm / calibration.gain;
+};
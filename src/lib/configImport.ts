@@ -0,0 +1,106 @@
+import { FirestoreCredentials } from '@/lib/firebase';
+
+/** Fields of the Firebase console's `firebaseConfig` object that the form keeps. */
+export type ImportedField = 'apiKey' | 'authDomain' | 'projectId' | 'storageBucket' | 'messagingSenderId' | 'appId';
+
+export type ImportIssue = 'missing' | 'malformed';
+
+export type ConfigFormat = 'js' | 'json' | 'env';
+
+export interface ConfigImportResult {
+  format: ConfigFormat | null;
+  values: Partial<Pick<FirestoreCredentials, ImportedField>>;
+  issues: Partial<Record<ImportedField, ImportIssue>>;
+}
+
+export const IMPORTED_FIELDS: ImportedField[] = [
+  'apiKey',
+  'authDomain',
+  'projectId',
+  'storageBucket',
+  'messagingSenderId',
+  'appId'
+];
+
+export const CONFIG_FORMAT_LABELS: Record<ConfigFormat, string> = {
+  js: 'trecho JavaScript',
+  json: 'JSON',
+  env: 'arquivo .env'
+};
+
+export const IMPORT_ISSUE_LABELS: Record<ImportIssue, string> = {
+  missing: 'Não encontrado na configuração importada',
+  malformed: 'Valor inválido na configuração importada'
+};
+
+// `VITE_FIREBASE_API_KEY` and friends; other bundlers' prefixes are accepted too
+const ENV_FIELDS: Record<string, ImportedField> = {
+  API_KEY: 'apiKey',
+  AUTH_DOMAIN: 'authDomain',
+  PROJECT_ID: 'projectId',
+  STORAGE_BUCKET: 'storageBucket',
+  MESSAGING_SENDER_ID: 'messagingSenderId',
+  APP_ID: 'appId'
+};
+
+const ENV_LINE = /^\s*(?:export\s+)?(?:VITE_|REACT_APP_|NEXT_PUBLIC_)?FIREBASE_([A-Z_]+)\s*=(.*)$/gm;
+
+const OBJECT_ENTRY = new RegExp(`["']?\\b(${IMPORTED_FIELDS.join('|')})\\b["']?\\s*:\\s*([^,\\n}]*)`, 'g');
+
+const unquote = (raw: string) => {
+  const value = raw.trim();
+  const quoted = /^(["'`])(.*)\1$/.exec(value);
+  return quoted ? quoted[2].trim() : null;
+};
+
+// Firebase config values never contain whitespace, so any is a leftover of bad copying
+const isWellFormed = (value: string | null): value is string => !!value && !/\s/.test(value);
+
+const readEnvValue = (raw: string) => {
+  const value = raw.replace(/\s+#.*$/, '').trim();
+  return unquote(value) ?? value;
+};
+
+/**
+ * Reads Firebase settings pasted from the console's `const firebaseConfig = {...}`
+ * snippet, from JSON or from `.env` lines such as `VITE_FIREBASE_API_KEY=...`.
+ * Parsing is tolerant: surrounding code, comments, unquoted keys and trailing
+ * commas are ignored. Fields that are absent, or whose value is not a plain
+ * string (e.g. `process.env.X`), are reported in `issues` instead of filled.
+ */
+export const parseFirebaseConfig = (text: string): ConfigImportResult => {
+  const found: Partial<Record<ImportedField, string | null>> = {};
+  let format: ConfigFormat | null = null;
+
+  for (const [, name, raw] of text.matchAll(ENV_LINE)) {
+    const field = ENV_FIELDS[name];
+    if (field) {
+      found[field] = readEnvValue(raw);
+      format = 'env';
+    }
+  }
+
+  if (!format) {
+    for (const [, field, raw] of text.matchAll(OBJECT_ENTRY)) {
+      found[field as ImportedField] = unquote(raw);
+    }
+    if (Object.keys(found).length > 0) {
+      format = /^\s*\{[\s\S]*\}\s*$/.test(text) && /"\w+"\s*:/.test(text) ? 'json' : 'js';
+    }
+  }
+
+  const result: ConfigImportResult = { format, values: {}, issues: {} };
+  if (!format) return result;
+
+  for (const field of IMPORTED_FIELDS) {
+    const value = found[field];
+    if (value === undefined) {
+      result.issues[field] = 'missing';
+    } else if (isWellFormed(value)) {
+      result.values[field] = value;
+    } else {
+      result.issues[field] = 'malformed';
+    }
+  }
+  return result;
+};
@@ -0,0 +1,76 @@
+import { FirestoreCredentials, loadSavedCredentials } from '@/lib/firebase';
+import { UserRole } from '@/lib/userRoles';
+
+export const PROFILES_STORAGE_KEY = 'firestore_profiles';
+
+export const DEFAULT_COLLECTION_NAME = 'medical_records';
+
+/** Named set of connection settings, e.g. staging, production or the emulators. */
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  /** Settings that passed the connection test, or null while the profile is new */
+  credentials: FirestoreCredentials | null;
+}
+
+export interface ProfileStore {
+  profiles: ConnectionProfile[];
+  activeProfileId: string | null;
+  /**
+   * Access role chosen in this browser. Privileged roles only count while the
+   * store is encrypted and unlocked, so editing storage cannot grant them.
+   */
+  role?: UserRole;
+}
+
+export const EMPTY_PROFILE_STORE: ProfileStore = { profiles: [], activeProfileId: null };
+
+/** Form values of a profile without saved settings. */
+export const EMPTY_CREDENTIALS: FirestoreCredentials = {
+  projectId: '',
+  apiKey: '',
+  authDomain: '',
+  storageBucket: '',
+  messagingSenderId: '',
+  appId: '',
+  collectionName: DEFAULT_COLLECTION_NAME,
+  emulator: null
+};
+
+export const createProfileId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Reads the saved profiles. Credentials saved before profiles existed become
+ * a "Padrão" profile, so upgrading keeps the connection.
+ */
+export const loadProfiles = (): ProfileStore => {
+  const saved = localStorage.getItem(PROFILES_STORAGE_KEY);
+  if (saved) {
+    try {
+      return JSON.parse(saved);
+    } catch (error) {
+      console.error('Error parsing saved profiles:', error);
+    }
+  }
+
+  const legacy = loadSavedCredentials();
+  if (!legacy) {
+    return EMPTY_PROFILE_STORE;
+  }
+
+  const profile: ConnectionProfile = { id: createProfileId(), name: 'Padrão', credentials: legacy };
+  return { profiles: [profile], activeProfileId: profile.id };
+};
+
+export const saveProfiles = (store: ProfileStore) => {
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(store));
+};
+
+/** Project and collection a profile points at, for headers and menus. */
+export const describeProfile = (profile: ConnectionProfile) => {
+  const { credentials } = profile;
+  if (!credentials) return 'Não configurado';
+
+  const target = `${credentials.projectId} / ${credentials.collectionName}`;
+  return credentials.emulator ? `${target} (emulador)` : target;
+};
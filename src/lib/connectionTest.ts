@@ -0,0 +1,228 @@
+import { collection, doc, getDocsFromServer, limit, query, serverTimestamp, setDoc } from 'firebase/firestore';
+import {
+  disposeFirebase,
+  FirebaseServices,
+  FirestoreCredentials,
+  initFirebase,
+  MedicalRecord,
+  ProbeStrategy
+} from '@/lib/firebase';
+import { createFirestoreRecordRepository } from '@/lib/firestoreRecordRepository';
+import { EMPTY_MEASUREMENTS } from '@/lib/measurements';
+import { MedicalRecordRepository } from '@/lib/recordRepository';
+
+export type ConnectionStep = 'init' | 'read' | 'healthcheck' | 'write' | 'delete';
+
+export type ConnectionStepStatus = 'pending' | 'running' | 'success' | 'error' | 'skipped';
+
+export type ConnectionErrorKind =
+  | 'invalid-api-key'
+  | 'project-not-found'
+  | 'permission-denied'
+  | 'firestore-disabled'
+  | 'offline'
+  | 'timeout'
+  | 'unknown';
+
+export interface ConnectionStepResult {
+  step: ConnectionStep;
+  status: ConnectionStepStatus;
+  error?: ConnectionErrorKind;
+  /** Message of the error as reported by Firebase */
+  message?: string;
+  /** Time the probe took, success or not */
+  durationMs?: number;
+}
+
+/** Collection the `healthcheck` strategy writes to, kept apart from clinical data. */
+export const HEALTHCHECK_COLLECTION = '_healthcheck';
+
+export const DEFAULT_PROBE_STRATEGY: ProbeStrategy = 'healthcheck';
+
+export const PROBE_STRATEGIES: Record<ProbeStrategy, { label: string; description: string; steps: ConnectionStep[] }> = {
+  'read-only': {
+    label: 'Somente leitura',
+    description: 'Lê um documento da coleção. Não grava nada; serve para usuários sem permissão de escrita.',
+    steps: ['init', 'read']
+  },
+  healthcheck: {
+    label: `Gravação em ${HEALTHCHECK_COLLECTION}`,
+    description: `Lê a coleção e grava um documento de verificação na coleção ${HEALTHCHECK_COLLECTION}, sem tocar nos registros clínicos.`,
+    steps: ['init', 'read', 'healthcheck']
+  },
+  'write-delete': {
+    label: 'Gravação e exclusão',
+    description: 'Grava e exclui um registro de teste na própria coleção. Aparece para quem acompanha as alterações da coleção.',
+    steps: ['init', 'read', 'write', 'delete']
+  }
+};
+
+export const CONNECTION_STEP_LABELS: Record<ConnectionStep, string> = {
+  init: 'Inicialização do app',
+  read: 'Leitura da coleção',
+  healthcheck: `Gravação em ${HEALTHCHECK_COLLECTION}`,
+  write: 'Gravação de registro de teste',
+  delete: 'Exclusão do registro de teste'
+};
+
+export const CONNECTION_ERRORS: Record<ConnectionErrorKind, { title: string; hint: string }> = {
+  'invalid-api-key': {
+    title: 'API Key inválida',
+    hint: 'Copie novamente a apiKey em Configurações do projeto → Seus aplicativos no Console do Firebase. Se a chave tiver restrições, libere a Cloud Firestore API e este domínio.'
+  },
+  'project-not-found': {
+    title: 'Projeto não encontrado',
+    hint: 'Confira o Project ID, que é o identificador exibido em Configurações do projeto, e não o nome de exibição.'
+  },
+  'permission-denied': {
+    title: 'Permissão negada pelas regras de segurança',
+    hint: 'As regras do Firestore bloquearam a operação. Em Firestore Database → Regras, libere o acesso à coleção configurada ou use uma conta com permissão.'
+  },
+  'firestore-disabled': {
+    title: 'Firestore não habilitado',
+    hint: 'Crie o banco em Firestore Database → Criar banco de dados no Console do Firebase e aguarde alguns minutos até a API ser ativada.'
+  },
+  offline: {
+    title: 'Sem conexão',
+    hint: 'Verifique a internet e se proxies ou bloqueadores impedem o acesso a firestore.googleapis.com. No modo emulador, confirme que o Emulator Suite está em execução.'
+  },
+  timeout: {
+    title: 'Tempo esgotado',
+    hint: 'O Firestore não respondeu a tempo. Verifique a rede e o Project ID; no modo emulador, confira o host e a porta.'
+  },
+  unknown: {
+    title: 'Erro inesperado',
+    hint: 'Consulte a mensagem abaixo e o console do navegador para mais detalhes.'
+  }
+};
+
+export const PROBE_TIMEOUT_MS = 10000;
+
+// Has no files, so the round trip needs no Storage access
+const CONNECTION_TEST_RECORD: MedicalRecord = {
+  patient: null,
+  ecg: [],
+  laudo: [],
+  ecgPdf: [],
+  laudoPdf: [],
+  ecgPdfPages: [],
+  laudoPdfPages: [],
+  signal: null,
+  measurements: EMPTY_MEASUREMENTS,
+  diagnoses: [],
+  descricao: 'Teste de conexão'
+};
+
+const getErrorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Maps a Firebase error to what most likely went wrong. Several causes share
+ * a code (a disabled API is also `permission-denied`), so the message is
+ * checked first.
+ */
+export const classifyFirebaseError = (error: unknown): ConnectionErrorKind => {
+  const code = (error as { code?: string })?.code ?? '';
+  const message = getErrorMessage(error);
+
+  if (/api[ -_]?key.*(not valid|invalid)|API_KEY_INVALID/i.test(message) || code.startsWith('auth/invalid-api-key')) {
+    return 'invalid-api-key';
+  }
+  if (/has not been used in project|is disabled|database \(default\) does not exist|datastore\/setup/i.test(message)) {
+    return 'firestore-disabled';
+  }
+  if (code === 'not-found' || /project.*(not found|does not exist)/i.test(message)) {
+    return 'project-not-found';
+  }
+  if (code === 'permission-denied') return 'permission-denied';
+  if (code === 'deadline-exceeded') return 'timeout';
+  if (code === 'unavailable' || !navigator.onLine) return 'offline';
+  return 'unknown';
+};
+
+// Firestore retries offline writes indefinitely, so each probe gets a deadline
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> => {
+  let timeout: ReturnType<typeof setTimeout>;
+  const expired = new Promise<never>((_, reject) => {
+    timeout = setTimeout(() => {
+      reject(Object.assign(new Error(`Sem resposta em ${ms / 1000} s`), { code: 'deadline-exceeded' }));
+    }, ms);
+  });
+  return Promise.race([promise, expired]).finally(() => clearTimeout(timeout));
+};
+
+/**
+ * Checks the credentials step by step on a throwaway app, which is deleted
+ * afterwards. The steps depend on the credentials' probe strategy; those after
+ * a failed one are skipped. `onProgress` receives the whole checklist whenever
+ * a step changes.
+ */
+export const runConnectionTest = async (
+  credentials: FirestoreCredentials,
+  onProgress: (steps: ConnectionStepResult[]) => void
+): Promise<ConnectionStepResult[]> => {
+  const strategy = PROBE_STRATEGIES[credentials.probeStrategy ?? DEFAULT_PROBE_STRATEGY];
+  const steps: ConnectionStepResult[] = strategy.steps.map(step => ({ step, status: 'pending' }));
+  const setStep = (index: number, result: Partial<ConnectionStepResult>) => {
+    steps[index] = { ...steps[index], ...result };
+    onProgress([...steps]);
+  };
+
+  let services: FirebaseServices | null = null;
+  let repository: MedicalRecordRepository | null = null;
+  let recordId: string | null = null;
+
+  const probes: Record<ConnectionStep, () => Promise<void>> = {
+    init: async () => {
+      services = initFirebase(credentials, 'test-app');
+      repository = createFirestoreRecordRepository(services, credentials.collectionName);
+    },
+    read: async () => {
+      // From the server, so an offline client cannot pass with an empty cache
+      await getDocsFromServer(query(collection(services.db, credentials.collectionName), limit(1)));
+    },
+    healthcheck: async () => {
+      // A fixed document, overwritten by every test instead of piling up
+      await setDoc(doc(services.db, HEALTHCHECK_COLLECTION, 'connection-test'), {
+        collectionName: credentials.collectionName,
+        checked_at: serverTimestamp()
+      });
+    },
+    write: async () => {
+      recordId = await repository.create(CONNECTION_TEST_RECORD);
+    },
+    delete: async () => {
+      await repository.delete(recordId);
+    }
+  };
+
+  try {
+    for (const [index, step] of strategy.steps.entries()) {
+      setStep(index, { status: 'running' });
+      const startedAt = performance.now();
+      const elapsed = () => Math.round(performance.now() - startedAt);
+      try {
+        await withTimeout(probes[step](), PROBE_TIMEOUT_MS);
+        setStep(index, { status: 'success', durationMs: elapsed() });
+      } catch (error) {
+        console.error(`Connection test failed at step "${step}":`, error);
+        setStep(index, {
+          status: 'error',
+          error: classifyFirebaseError(error),
+          message: getErrorMessage(error),
+          durationMs: elapsed()
+        });
+        for (let next = index + 1; next < steps.length; next++) {
+          setStep(next, { status: 'skipped' });
+        }
+        break;
+      }
+    }
+    return steps;
+  } finally {
+    if (services) disposeFirebase(services);
+  }
+};
+
+export const isConnectionTestPassed = (steps: ConnectionStepResult[]) => {
+  return steps.every(step => step.status === 'success');
+};
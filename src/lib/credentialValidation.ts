@@ -0,0 +1,103 @@
+import { FirestoreCredentials, getDefaultStorageBucket } from '@/lib/firebase';
+
+export type CredentialErrors = Partial<Record<keyof FirestoreCredentials, string>>;
+
+// Browser API keys are "AIza" followed by 35 URL-safe characters
+const API_KEY_PATTERN = /^AIza[0-9A-Za-z_-]{35}$/;
+
+const APP_ID_PATTERN = /^1:(\d+):web:[0-9a-f]+$/;
+
+// 6 to 30 characters, starting with a letter and not ending with a hyphen
+const PROJECT_ID_PATTERN = /^[a-z][a-z0-9-]{4,28}[a-z0-9]$/;
+
+const SENDER_ID_PATTERN = /^\d+$/;
+
+const MAX_COLLECTION_ID_BYTES = 1500;
+
+export const getSuggestedAuthDomain = (projectId: string) => `${projectId}.firebaseapp.com`;
+
+/**
+ * Bucket the console creates for a new project. The Storage emulator uses the
+ * older `appspot.com` name instead.
+ */
+export const getSuggestedStorageBucket = (projectId: string, isEmulator: boolean) => {
+  return isEmulator ? getDefaultStorageBucket(projectId) : `${projectId}.firebasestorage.app`;
+};
+
+/**
+ * Follows a Project ID edit in the Auth Domain and Storage Bucket, as long as
+ * they are empty or still hold the suggestion for the previous Project ID, so
+ * values typed by the user are never overwritten.
+ */
+export const deriveFromProjectId = (
+  previous: FirestoreCredentials,
+  projectId: string
+): Pick<FirestoreCredentials, 'authDomain' | 'storageBucket'> => {
+  const isEmulator = !!previous.emulator;
+  const follow = (current: string, suggest: (projectId: string) => string) => {
+    const isSuggestion = !current || (!!previous.projectId && current === suggest(previous.projectId));
+    return isSuggestion ? (projectId ? suggest(projectId) : '') : current;
+  };
+
+  return {
+    authDomain: follow(previous.authDomain, getSuggestedAuthDomain),
+    storageBucket: follow(previous.storageBucket, id => getSuggestedStorageBucket(id, isEmulator))
+  };
+};
+
+/** Firestore's rules for collection IDs, with the reason for the first one broken. */
+export const getCollectionNameError = (name: string): string | null => {
+  if (name.includes('/')) return 'Não pode conter "/"; informe apenas o nome da coleção, sem caminho';
+  if (name === '.' || name === '..') return 'Não pode ser "." nem ".."';
+  if (/^__.*__$/.test(name)) return 'Nomes entre "__" são reservados pelo Firestore';
+  if (new TextEncoder().encode(name).length > MAX_COLLECTION_ID_BYTES) {
+    return `Não pode passar de ${MAX_COLLECTION_ID_BYTES} bytes`;
+  }
+  if (name !== name.trim()) return 'Remova os espaços no início ou no fim';
+  return null;
+};
+
+/**
+ * Checks the format of the filled fields; required fields are checked apart.
+ * The emulators accept any API key, so it is not checked in emulator mode.
+ */
+export const validateCredentials = (credentials: FirestoreCredentials): CredentialErrors => {
+  const { projectId, apiKey, authDomain, storageBucket, messagingSenderId, appId, collectionName, emulator } = credentials;
+  const errors: CredentialErrors = {};
+
+  if (projectId && !PROJECT_ID_PATTERN.test(projectId)) {
+    errors.projectId = 'Use de 6 a 30 letras minúsculas, números ou hífens, começando com letra';
+  }
+
+  if (apiKey && !emulator && !API_KEY_PATTERN.test(apiKey)) {
+    errors.apiKey = apiKey.startsWith('AIza')
+      ? `A API Key tem 39 caracteres; esta tem ${apiKey.length}`
+      : 'A API Key começa com "AIza"';
+  }
+
+  if (authDomain && /^[a-z]+:\/\/|\/$/i.test(authDomain)) {
+    errors.authDomain = 'Informe só o domínio, sem https:// nem barra no fim';
+  }
+
+  if (storageBucket && /^gs:\/\//i.test(storageBucket)) {
+    errors.storageBucket = 'Informe o bucket sem o prefixo gs://';
+  }
+
+  if (messagingSenderId && !SENDER_ID_PATTERN.test(messagingSenderId)) {
+    errors.messagingSenderId = 'Deve conter apenas números';
+  }
+
+  const appIdMatch = appId ? APP_ID_PATTERN.exec(appId) : null;
+  if (appId && !appIdMatch) {
+    errors.appId = 'Formato esperado: 1:<sender id>:web:<hash>';
+  } else if (appIdMatch && messagingSenderId && appIdMatch[1] !== messagingSenderId) {
+    errors.messagingSenderId = `Não confere com o App ID, que indica ${appIdMatch[1]}`;
+  }
+
+  const collectionError = collectionName ? getCollectionNameError(collectionName) : null;
+  if (collectionError) {
+    errors.collectionName = collectionError;
+  }
+
+  return errors;
+};
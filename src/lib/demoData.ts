@@ -0,0 +1,191 @@
+import { Timestamp } from 'firebase/firestore';
+import { subDays } from 'date-fns';
+import { MedicalRecordDocument, StoredFile } from '@/lib/firebase';
+import { EcgMeasurements, toStoredMeasurements } from '@/lib/measurements';
+import { getStatement, toDiagnosisCode } from '@/lib/ecgStatements';
+import { Patient, PatientRepository, PatientRow, toPatientDocument } from '@/lib/patients';
+import { MedicalRecordRepository } from '@/lib/recordRepository';
+import { createMemoryPatientRepository, createMemoryRecordRepository } from '@/lib/memoryRepository';
+
+export const DEMO_MODE_STORAGE_KEY = 'demo_mode';
+
+export interface DemoRepositories {
+  records: MedicalRecordRepository;
+  patients: PatientRepository;
+}
+
+interface DemoRecord {
+  patientId: string;
+  daysAgo: number;
+  measurements: EcgMeasurements;
+  diagnoses: string[];
+  descricao: string;
+}
+
+const DEMO_PATIENTS: (Patient & { id: string })[] = [
+  {
+    id: 'demo-patient-1',
+    name: 'Maria Aparecida Souza',
+    birthDate: '1958-03-14',
+    sex: 'female',
+    internalId: 'PR-1001',
+    cpf: '52998224725',
+    cns: null
+  },
+  {
+    id: 'demo-patient-2',
+    name: 'João Carlos Pereira',
+    birthDate: '1971-11-02',
+    sex: 'male',
+    internalId: 'PR-1002',
+    cpf: null,
+    cns: null
+  },
+  {
+    id: 'demo-patient-3',
+    name: 'Ana Beatriz Lima',
+    birthDate: '1990-07-21',
+    sex: 'female',
+    internalId: 'PR-1003',
+    cpf: null,
+    cns: null
+  }
+];
+
+const DEMO_RECORDS: DemoRecord[] = [
+  {
+    patientId: 'demo-patient-1',
+    daysAgo: 2,
+    measurements: { heartRate: 72, prInterval: 168, qrsDuration: 92, qtInterval: 392, pAxis: 54, qrsAxis: 42, tAxis: 38 },
+    diagnoses: ['SR', 'NORM'],
+    descricao: 'Ritmo sinusal com frequência cardíaca de 72 bpm. Intervalos e eixos dentro dos limites da normalidade.'
+  },
+  {
+    patientId: 'demo-patient-1',
+    daysAgo: 210,
+    measurements: { heartRate: 54, prInterval: 214, qrsDuration: 96, qtInterval: 440, pAxis: 50, qrsAxis: 35, tAxis: 30 },
+    diagnoses: ['SBRAD', '1AVB'],
+    descricao: 'Bradicardia sinusal com bloqueio atrioventricular de 1º grau (PR de 214 ms).'
+  },
+  {
+    patientId: 'demo-patient-2',
+    daysAgo: 9,
+    measurements: { heartRate: 78, prInterval: 176, qrsDuration: 138, qtInterval: 424, pAxis: 48, qrsAxis: -52, tAxis: 70 },
+    diagnoses: ['SR', 'CRBBB', 'LAFB'],
+    descricao: 'Ritmo sinusal. Bloqueio completo do ramo direito associado a bloqueio divisional anterossuperior esquerdo.'
+  },
+  {
+    patientId: 'demo-patient-3',
+    daysAgo: 1,
+    measurements: { heartRate: 112, prInterval: 136, qrsDuration: 84, qtInterval: 316, pAxis: 62, qrsAxis: 70, tAxis: 55 },
+    diagnoses: ['STACH'],
+    descricao: 'Taquicardia sinusal com frequência cardíaca de 112 bpm, sem outras alterações.'
+  }
+];
+
+// 25 mm/s and 10 mm/mV drawn at 4 px per mm, 10 s wide
+const PX_PER_MM = 4;
+const STRIP_SECONDS = 10;
+const STRIP_HEIGHT_MM = 40;
+
+// P, Q, R, S and T waves as gaussians: center (s after the beat), width (s), amplitude (mV)
+const BEAT_WAVES = [
+  [0.09, 0.025, 0.15],
+  [0.23, 0.008, -0.1],
+  [0.25, 0.01, 1.2],
+  [0.27, 0.01, -0.25],
+  [0.5, 0.05, 0.3]
+];
+
+const getBeatVoltage = (time: number) => {
+  return BEAT_WAVES.reduce((sum, [center, width, amplitude]) => {
+    return sum + amplitude * Math.exp(-((time - center) ** 2) / (2 * width ** 2));
+  }, 0);
+};
+
+const toImageFile = (svg: string, name: string): StoredFile => {
+  const blob = new Blob([svg], { type: 'image/svg+xml' });
+  // Object URLs are not data URLs, so the form treats the pages as already stored
+  return { path: `demo/${name}.svg`, contentType: blob.type, size: blob.size, url: URL.createObjectURL(blob) };
+};
+
+/** A single-lead rhythm strip on ECG paper, at the given heart rate. */
+const renderEcgStrip = (heartRate: number, name: string) => {
+  const width = STRIP_SECONDS * 25 * PX_PER_MM;
+  const height = STRIP_HEIGHT_MM * PX_PER_MM;
+  const gridLines: string[] = [];
+  for (let mm = 0; mm <= STRIP_SECONDS * 25; mm++) {
+    gridLines.push(`<line x1="${mm * PX_PER_MM}" y1="0" x2="${mm * PX_PER_MM}" y2="${height}" class="${mm % 5 ? 'minor' : 'major'}"/>`);
+  }
+  for (let mm = 0; mm <= STRIP_HEIGHT_MM; mm++) {
+    gridLines.push(`<line x1="0" y1="${mm * PX_PER_MM}" x2="${width}" y2="${mm * PX_PER_MM}" class="${mm % 5 ? 'minor' : 'major'}"/>`);
+  }
+
+  const beatSeconds = 60 / heartRate;
+  const baseline = height / 2;
+  const points: string[] = [];
+  for (let x = 0; x <= width; x++) {
+    const time = x / (25 * PX_PER_MM);
+    const voltage = getBeatVoltage(time % beatSeconds);
+    points.push(`${x},${(baseline - voltage * 10 * PX_PER_MM).toFixed(1)}`);
+  }
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    + '<style>.minor{stroke:#f9c6cf;stroke-width:0.5}.major{stroke:#ee8a9b;stroke-width:1}</style>'
+    + `<rect width="${width}" height="${height}" fill="#fff5f6"/>${gridLines.join('')}`
+    + `<polyline points="${points.join(' ')}" fill="none" stroke="#111" stroke-width="1.5"/>`
+    + `<text x="8" y="18" font-family="sans-serif" font-size="14">II · 25 mm/s · 10 mm/mV</text></svg>`;
+  return toImageFile(svg, name);
+};
+
+const escapeXml = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/** A report page with the patient's name and the record's description. */
+const renderReport = (patientName: string, descricao: string, name: string) => {
+  const lines = descricao.match(/.{1,70}(\s|$)/g) ?? [descricao];
+  const text = lines
+    .map((line, index) => `<text x="40" y="${140 + index * 24}" font-size="16">${escapeXml(line.trim())}</text>`)
+    .join('');
+
+  const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="800" height="1000" viewBox="0 0 800 1000" font-family="sans-serif">'
+    + '<rect width="800" height="1000" fill="#fff"/>'
+    + '<text x="40" y="60" font-size="24" font-weight="bold">Laudo de eletrocardiograma</text>'
+    + `<text x="40" y="100" font-size="16">Paciente: ${escapeXml(patientName)}</text>${text}`
+    + '<text x="40" y="960" font-size="12" fill="#888">Registro de demonstração</text></svg>';
+  return toImageFile(svg, name);
+};
+
+/**
+ * In-memory repositories seeded with example patients and records, for
+ * exploring the app without a Firebase project. Nothing leaves the browser.
+ */
+export const createDemoRepositories = (): DemoRepositories => {
+  const patients: PatientRow[] = DEMO_PATIENTS.map(({ id, ...patient }) => ({
+    id,
+    ...toPatientDocument(patient),
+    created_at: Timestamp.now()
+  }));
+
+  const records: Record<string, MedicalRecordDocument> = {};
+  DEMO_RECORDS.forEach((record, index) => {
+    const id = `demo-record-${index + 1}`;
+    const patient = patients.find(item => item.id === record.patientId);
+    records[id] = {
+      patientId: record.patientId,
+      ecg: [renderEcgStrip(record.measurements.heartRate, `${id}-ecg`)],
+      laudo: [renderReport(patient.name, record.descricao, `${id}-laudo`)],
+      ecgPdf: [],
+      laudoPdf: [],
+      signal: null,
+      measurements: toStoredMeasurements(record.measurements),
+      diagnoses: record.diagnoses.map(code => toDiagnosisCode(getStatement(code))),
+      descricao: record.descricao,
+      created_at: Timestamp.fromDate(subDays(new Date(), record.daysAgo))
+    };
+  });
+
+  return {
+    records: createMemoryRecordRepository(records),
+    patients: createMemoryPatientRepository(patients)
+  };
+};
@@ -0,0 +1,91 @@
+export type StatementCategory = 'rhythm' | 'conduction' | 'hypertrophy' | 'infarction' | 'st-t' | 'other';
+
+/** An ECG diagnostic statement from the SCP-ECG vocabulary. */
+export interface EcgStatement {
+  /** SCP-ECG statement acronym */
+  code: string;
+  description: string;
+  category: StatementCategory;
+  /** SNOMED CT concept ID, when the statement has a direct mapping */
+  snomedCt: string | null;
+}
+
+export type DiagnosisCertainty = 'definite' | 'probable' | 'possible';
+
+/** A coded statement as stored on the record. */
+export interface DiagnosisCode {
+  code: string;
+  snomedCt: string | null;
+  certainty: DiagnosisCertainty;
+}
+
+export const STATEMENT_CATEGORY_LABELS: Record<StatementCategory, string> = {
+  rhythm: 'Ritmo',
+  conduction: 'Condução',
+  hypertrophy: 'Sobrecarga e hipertrofia',
+  infarction: 'Infarto e isquemia',
+  'st-t': 'Repolarização (ST-T)',
+  other: 'Outros'
+};
+
+export const CERTAINTY_LABELS: Record<DiagnosisCertainty, string> = {
+  definite: 'Definido',
+  probable: 'Provável',
+  possible: 'Possível'
+};
+
+export const ECG_STATEMENTS: EcgStatement[] = [
+  { code: 'NORM', description: 'ECG normal', category: 'other', snomedCt: '164854000' },
+  { code: 'SR', description: 'Ritmo sinusal', category: 'rhythm', snomedCt: '426783006' },
+  { code: 'SBRAD', description: 'Bradicardia sinusal', category: 'rhythm', snomedCt: '426177001' },
+  { code: 'STACH', description: 'Taquicardia sinusal', category: 'rhythm', snomedCt: '427084000' },
+  { code: 'SARRH', description: 'Arritmia sinusal', category: 'rhythm', snomedCt: '427393009' },
+  { code: 'AFIB', description: 'Fibrilação atrial', category: 'rhythm', snomedCt: '164889003' },
+  { code: 'AFLT', description: 'Flutter atrial', category: 'rhythm', snomedCt: '164890007' },
+  { code: 'SVTAC', description: 'Taquicardia supraventricular', category: 'rhythm', snomedCt: '426761007' },
+  { code: 'PAC', description: 'Extrassístole atrial', category: 'rhythm', snomedCt: '284470004' },
+  { code: 'PVC', description: 'Extrassístole ventricular', category: 'rhythm', snomedCt: '427172004' },
+  { code: 'BIGU', description: 'Bigeminismo ventricular', category: 'rhythm', snomedCt: '11157007' },
+  { code: 'TRIGU', description: 'Trigeminismo ventricular', category: 'rhythm', snomedCt: '251180001' },
+  { code: 'PACE', description: 'Ritmo de marca-passo', category: 'rhythm', snomedCt: '10370003' },
+  { code: '1AVB', description: 'Bloqueio atrioventricular de 1º grau', category: 'conduction', snomedCt: '270492004' },
+  { code: '2AVB', description: 'Bloqueio atrioventricular de 2º grau', category: 'conduction', snomedCt: '195042002' },
+  { code: '3AVB', description: 'Bloqueio atrioventricular total', category: 'conduction', snomedCt: '27885002' },
+  { code: 'CRBBB', description: 'Bloqueio completo do ramo direito', category: 'conduction', snomedCt: '713427006' },
+  { code: 'IRBBB', description: 'Bloqueio incompleto do ramo direito', category: 'conduction', snomedCt: '713426002' },
+  { code: 'CLBBB', description: 'Bloqueio completo do ramo esquerdo', category: 'conduction', snomedCt: '733534002' },
+  { code: 'ILBBB', description: 'Bloqueio incompleto do ramo esquerdo', category: 'conduction', snomedCt: '251120003' },
+  { code: 'LAFB', description: 'Bloqueio divisional anterossuperior esquerdo', category: 'conduction', snomedCt: '445118002' },
+  { code: 'LPFB', description: 'Bloqueio divisional posteroinferior esquerdo', category: 'conduction', snomedCt: '445211001' },
+  { code: 'IVCD', description: 'Distúrbio de condução intraventricular inespecífico', category: 'conduction', snomedCt: '698252002' },
+  { code: 'WPW', description: 'Síndrome de Wolff-Parkinson-White', category: 'conduction', snomedCt: '74390002' },
+  { code: 'LPR', description: 'Intervalo PR prolongado', category: 'conduction', snomedCt: '164947007' },
+  { code: 'LVH', description: 'Sobrecarga ventricular esquerda', category: 'hypertrophy', snomedCt: '164873001' },
+  { code: 'RVH', description: 'Sobrecarga ventricular direita', category: 'hypertrophy', snomedCt: '89792004' },
+  { code: 'LAO/LAE', description: 'Sobrecarga atrial esquerda', category: 'hypertrophy', snomedCt: '67741000119109' },
+  { code: 'RAO/RAE', description: 'Sobrecarga atrial direita', category: 'hypertrophy', snomedCt: '446358003' },
+  { code: 'MI', description: 'Infarto do miocárdio', category: 'infarction', snomedCt: '164865005' },
+  { code: 'AMI', description: 'Infarto do miocárdio de parede anterior', category: 'infarction', snomedCt: '54329005' },
+  { code: 'IMI', description: 'Infarto do miocárdio de parede inferior', category: 'infarction', snomedCt: '73795002' },
+  { code: 'ISC_', description: 'Isquemia miocárdica', category: 'infarction', snomedCt: '164861001' },
+  { code: 'QWAVE', description: 'Ondas Q patológicas', category: 'infarction', snomedCt: '164917005' },
+  { code: 'STD_', description: 'Infradesnivelamento do segmento ST', category: 'st-t', snomedCt: '429622005' },
+  { code: 'STE_', description: 'Supradesnivelamento do segmento ST', category: 'st-t', snomedCt: '164931005' },
+  { code: 'NST_', description: 'Alteração inespecífica de ST-T', category: 'st-t', snomedCt: '428750005' },
+  { code: 'NT_', description: 'Alteração inespecífica da onda T', category: 'st-t', snomedCt: '164934002' },
+  { code: 'INVT', description: 'Onda T invertida', category: 'st-t', snomedCt: '59931005' },
+  { code: 'LNGQT', description: 'Intervalo QT prolongado', category: 'st-t', snomedCt: '111975006' },
+  { code: 'LAD', description: 'Desvio do eixo elétrico para a esquerda', category: 'other', snomedCt: '39732003' },
+  { code: 'RAD', description: 'Desvio do eixo elétrico para a direita', category: 'other', snomedCt: '47665007' },
+  { code: 'LVOLT', description: 'Baixa voltagem do QRS', category: 'other', snomedCt: '251146004' }
+];
+
+const STATEMENTS_BY_CODE = new Map(ECG_STATEMENTS.map(statement => [statement.code, statement]));
+
+export const getStatement = (code: string) => STATEMENTS_BY_CODE.get(code) ?? null;
+
+export const toDiagnosisCode = (statement: EcgStatement, certainty: DiagnosisCertainty = 'definite'): DiagnosisCode => ({
+  code: statement.code,
+  snomedCt: statement.snomedCt,
+  certainty
+});
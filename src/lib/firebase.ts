@@ -0,0 +1,205 @@
+import { initializeApp, deleteApp, FirebaseApp } from 'firebase/app';
+import { getFirestore, connectFirestoreEmulator, Firestore, Timestamp } from 'firebase/firestore';
+import { getStorage, connectStorageEmulator, FirebaseStorage } from 'firebase/storage';
+import { getAuth, connectAuthEmulator, Auth } from 'firebase/auth';
+import { EcgSignal, StoredSignal } from '@/lib/signal';
+import { PageCalipers } from '@/lib/calipers';
+import { EcgMeasurements, StoredMeasurements } from '@/lib/measurements';
+import { DiagnosisCode } from '@/lib/ecgStatements';
+import { PatientRow } from '@/lib/patients';
+
+/**
+ * Form state of a record. Image fields hold the ordered pages, each either a
+ * freshly selected data URL or the URL of an image already stored for the record.
+ */
+export interface MedicalRecord {
+  /** Patient the ECG belongs to, picked or created in the form */
+  patient: PatientRow | null;
+  ecg: string[];
+  laudo: string[];
+  /** Original PDFs the ECG pages were rendered from */
+  ecgPdf: string[];
+  /** Original PDFs the laudo pages were rendered from */
+  laudoPdf: string[];
+  /** Which ECG pages were rendered from which PDF */
+  ecgPdfPages: PdfPageLink[];
+  /** Which laudo pages were rendered from which PDF */
+  laudoPdfPages: PdfPageLink[];
+  /** Digital waveform imported from an aECG/SCP-ECG file, if any */
+  signal: EcgSignal | null;
+  /** Intervals and axes entered by the reader */
+  measurements: EcgMeasurements;
+  /** Coded diagnostic statements */
+  diagnoses: DiagnosisCode[];
+  descricao: string;
+}
+
+export type ImageField = 'ecg' | 'laudo';
+
+export type PdfField = `${ImageField}Pdf`;
+
+export const pdfFieldOf = (field: ImageField): PdfField => `${field}Pdf`;
+
+export type PdfPagesField = `${ImageField}PdfPages`;
+
+export const pdfPagesFieldOf = (field: ImageField): PdfPagesField => `${field}PdfPages`;
+
+/**
+ * Page image rendered from an original PDF, both referenced by URL like
+ * calipers reference their page, so the link survives reordering.
+ */
+export interface PdfPageLink {
+  page: string;
+  pdf: string;
+}
+
+/** Reference to a binary kept in Firebase Storage. */
+export interface StoredFile {
+  path: string;
+  contentType: string;
+  size: number;
+  url: string;
+}
+
+export type StoredImage = StoredFile;
+
+/** A stored image, or a legacy base64 data URL kept inline in the document. */
+export type RecordImage = StoredImage | string;
+
+/**
+ * Record as persisted in Firestore. Image fields are ordered arrays of pages;
+ * older documents hold a single image there instead, possibly inline as base64.
+ */
+export interface MedicalRecordDocument {
+  /** ID of the record's document in the `patients` collection; absent on older records */
+  patientId?: string | null;
+  ecg: RecordImage[] | RecordImage;
+  laudo: RecordImage[] | RecordImage;
+  ecgPdf?: StoredFile[];
+  laudoPdf?: StoredFile[];
+  ecgPdfPages?: PdfPageLink[];
+  laudoPdfPages?: PdfPageLink[];
+  signal?: StoredSignal | null;
+  /** Calibration and calipers placed on the ECG pages */
+  ecgCalipers?: PageCalipers[];
+  measurements?: StoredMeasurements | null;
+  diagnoses?: DiagnosisCode[];
+  descricao: string;
+  timestamp?: string;
+  created_at?: Timestamp;
+  updated_at?: Timestamp;
+}
+
+export interface FirebaseServices {
+  app: FirebaseApp;
+  db: Firestore;
+  storage: FirebaseStorage | null;
+  /** Only set up against an Auth emulator; the app has no sign-in of its own yet */
+  auth: Auth | null;
+}
+
+/** Local Firebase Emulator Suite to connect to instead of the real project. */
+export interface EmulatorSettings {
+  host: string;
+  firestorePort: number;
+  authPort: number | null;
+  storagePort: number | null;
+}
+
+export const DEFAULT_EMULATOR_SETTINGS: EmulatorSettings = {
+  host: 'localhost',
+  firestorePort: 8080,
+  authPort: null,
+  storagePort: null
+};
+
+export interface FirestoreCredentials {
+  projectId: string;
+  apiKey: string;
+  authDomain: string;
+  storageBucket: string;
+  messagingSenderId: string;
+  appId: string;
+  collectionName: string;
+  /** Set when the app should talk to the emulators; absent on credentials saved before emulator support */
+  emulator?: EmulatorSettings | null;
+  /** How the connection test checks access; see PROBE_STRATEGIES */
+  probeStrategy?: ProbeStrategy;
+}
+
+/**
+ * Connection test to run: a read of the collection only, a write to a
+ * `_healthcheck` collection, or writing and deleting a record in the collection.
+ */
+export type ProbeStrategy = 'read-only' | 'healthcheck' | 'write-delete';
+
+/** Bucket name the Storage emulator uses by default for a project. */
+export const getDefaultStorageBucket = (projectId: string) => `${projectId}.appspot.com`;
+
+export const CREDENTIALS_STORAGE_KEY = 'firestore_credentials';
+
+export const loadSavedCredentials = (): FirestoreCredentials | null => {
+  const saved = localStorage.getItem(CREDENTIALS_STORAGE_KEY);
+  if (!saved) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(saved);
+  } catch (error) {
+    console.error('Error parsing saved credentials:', error);
+    return null;
+  }
+};
+
+/** Settings that identify a Firebase app; the collection name and test settings are not among them. */
+export type FirebaseAppCredentials = Omit<FirestoreCredentials, 'collectionName' | 'probeStrategy'>;
+
+export const getAppCredentials = ({
+  collectionName,
+  probeStrategy,
+  ...appCredentials
+}: FirestoreCredentials): FirebaseAppCredentials => {
+  return appCredentials;
+};
+
+export const initFirebase = (credentials: FirebaseAppCredentials, appPrefix: string): FirebaseServices => {
+  const { emulator } = credentials;
+  const firebaseConfig = {
+    // The emulators accept any key, but Auth refuses to start without one
+    apiKey: credentials.apiKey || (emulator ? 'emulator-api-key' : ''),
+    authDomain: credentials.authDomain,
+    projectId: credentials.projectId,
+    storageBucket: credentials.storageBucket,
+    messagingSenderId: credentials.messagingSenderId,
+    appId: credentials.appId
+  };
+
+  const app = initializeApp(firebaseConfig, `${appPrefix}-${Date.now()}`);
+  const db = getFirestore(app);
+  // Storage is only available when a bucket has been configured, and against
+  // the emulators only with a Storage port, so files never reach the real bucket
+  const storage = credentials.storageBucket && (!emulator || emulator.storagePort) ? getStorage(app) : null;
+  let auth: Auth | null = null;
+
+  // Each app is new, so the emulators are connected before any request is made
+  if (emulator) {
+    connectFirestoreEmulator(db, emulator.host, emulator.firestorePort);
+    if (storage && emulator.storagePort) {
+      connectStorageEmulator(storage, emulator.host, emulator.storagePort);
+    }
+    if (emulator.authPort) {
+      auth = getAuth(app);
+      connectAuthEmulator(auth, `http://${emulator.host}:${emulator.authPort}`, { disableWarnings: true });
+    }
+  }
+
+  return { app, db, storage, auth };
+};
+
+/** Releases an app created by initFirebase along with its Firestore and Storage clients. */
+export const disposeFirebase = (services: FirebaseServices) => {
+  deleteApp(services.app).catch(error => {
+    console.error('Error deleting Firebase app:', error);
+  });
+};
@@ -0,0 +1,140 @@
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  setDoc,
+  startAfter,
+  updateDoc,
+  where,
+  QueryDocumentSnapshot
+} from 'firebase/firestore';
+import { FirebaseStorage } from 'firebase/storage';
+import { FirebaseServices } from '@/lib/firebase';
+import { validateRecordSnapshot } from '@/lib/recordSchema';
+import {
+  deleteRecordFile,
+  loadRecordSignal,
+  uploadRecordFile,
+  uploadRecordSignal
+} from '@/lib/storage';
+import {
+  buildRecordDocument,
+  buildRecordUpdate,
+  getRecordFiles,
+  MedicalRecordRepository,
+  RecordFileStore,
+  removeRecordFiles
+} from '@/lib/recordRepository';
+
+/** Files under `<collection>/<record ID>/` in the Storage bucket, if one is configured. */
+export const createStorageFileStore = (storage: FirebaseStorage | null, collectionName: string): RecordFileStore => {
+  const requireStorage = () => {
+    if (!storage) {
+      throw new Error('Storage Bucket não configurado');
+    }
+    return storage;
+  };
+
+  return {
+    upload: async (recordId, folder, dataUrl) => {
+      return uploadRecordFile(requireStorage(), collectionName, recordId, folder, dataUrl);
+    },
+    uploadSignal: async (recordId, signal) => {
+      return uploadRecordSignal(requireStorage(), collectionName, recordId, signal);
+    },
+    loadSignal: async signal => loadRecordSignal(requireStorage(), signal),
+    remove: async file => {
+      // Without a bucket nothing can have been uploaded
+      if (storage) await deleteRecordFile(storage, file);
+    }
+  };
+};
+
+export const createFirestoreRecordRepository = (
+  { db, storage }: FirebaseServices,
+  collectionName: string
+): MedicalRecordRepository => {
+  const records = collection(db, collectionName);
+  const files = createStorageFileStore(storage, collectionName);
+
+  const get = async (id: string) => {
+    const snapshot = await getDoc(doc(records, id));
+    return snapshot.exists() ? validateRecordSnapshot(snapshot) : null;
+  };
+
+  return {
+    create: async record => {
+      // Reserve the document ID so the files can be stored under the record's path
+      const recordRef = doc(records);
+      const document = await buildRecordDocument(files, recordRef.id, record);
+      try {
+        await setDoc(recordRef, { ...document, created_at: new Date() });
+      } catch (error) {
+        // Without the document nothing references the files just stored
+        await removeRecordFiles(files, getRecordFiles(document));
+        throw error;
+      }
+      return recordRef.id;
+    },
+
+    get,
+
+    list: async (pageSize, after) => {
+      const constraints = [
+        orderBy('created_at', 'desc'),
+        ...(after ? [startAfter(after as QueryDocumentSnapshot)] : []),
+        // Fetch one extra document to know whether a next page exists
+        limit(pageSize + 1)
+      ];
+      const snapshot = await getDocs(query(records, ...constraints));
+      const docs = snapshot.docs.slice(0, pageSize);
+
+      return {
+        rows: docs.map(validateRecordSnapshot),
+        hasNextPage: snapshot.docs.length > pageSize,
+        cursor: docs[docs.length - 1] ?? null
+      };
+    },
+
+    update: async (id, changes) => {
+      const current = await get(id);
+      if (!current?.record) {
+        throw new Error(`Registro ${id} não encontrado ou inválido`);
+      }
+
+      const { updates, removed, uploaded } = await buildRecordUpdate(files, id, current.record, changes);
+      try {
+        await updateDoc(doc(records, id), { ...updates, updated_at: new Date() });
+      } catch (error) {
+        // The stored record still points at its previous files only
+        await removeRecordFiles(files, uploaded);
+        throw error;
+      }
+      await removeRecordFiles(files, removed);
+      return { ...current.record, ...updates };
+    },
+
+    delete: async id => {
+      const current = await get(id);
+      await deleteDoc(doc(records, id));
+
+      // The document is gone already; files of an invalid one cannot be listed
+      if (current?.record) {
+        await removeRecordFiles(files, getRecordFiles(current.record));
+      }
+    },
+
+    query: async ({ patientId }) => {
+      // Sorting is left to the caller; orderBy here would need a composite index
+      const snapshot = await getDocs(query(records, where('patientId', '==', patientId)));
+      return snapshot.docs.map(validateRecordSnapshot);
+    },
+
+    loadSignal: files.loadSignal
+  };
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import {
+  displayIdentifier,
+  formatCns,
+  formatCpf,
+  isValidCns,
+  isValidCpf,
+  maskCns,
+  maskCpf
+} from '@/lib/identifiers';
+
+describe('CPF', () => {
+  it('accepts valid check digits, with or without the mask', () => {
+    expect(isValidCpf('529.982.247-25')).toBe(true);
+    expect(isValidCpf('52998224725')).toBe(true);
+  });
+
+  it('rejects wrong check digits, lengths and repeated digits', () => {
+    expect(isValidCpf('529.982.247-24')).toBe(false);
+    expect(isValidCpf('529.982.247-15')).toBe(false);
+    expect(isValidCpf('5299822472')).toBe(false);
+    expect(isValidCpf('111.111.111-11')).toBe(false);
+  });
+
+  it('masks the digits typed so far', () => {
+    expect(formatCpf('529')).toBe('529');
+    expect(formatCpf('5299')).toBe('529.9');
+    expect(formatCpf('5299822')).toBe('529.982.2');
+    expect(formatCpf('5299822472')).toBe('529.982.247-2');
+    expect(formatCpf('529982247251234')).toBe('529.982.247-25');
+  });
+
+  it('hides the first and last groups', () => {
+    expect(maskCpf('52998224725')).toBe('***.982.247-**');
+    expect(maskCpf('123')).toBe('***.***.***-**');
+  });
+});
+
+describe('CNS', () => {
+  it('accepts definitive cards derived from the PIS', () => {
+    expect(isValidCns('100000000000007')).toBe(true);
+    // Check digit 10 moves the remainder into the 001 suffix
+    expect(isValidCns('100 0000 1000 0018')).toBe(true);
+  });
+
+  it('accepts provisional cards whose weighted sum is divisible by 11', () => {
+    expect(isValidCns('700000000000005')).toBe(true);
+    expect(isValidCns('700000000000006')).toBe(false);
+  });
+
+  it('rejects other prefixes, lengths and check digits', () => {
+    expect(isValidCns('100000000000008')).toBe(false);
+    expect(isValidCns('100000010000008')).toBe(false);
+    expect(isValidCns('300000000000007')).toBe(false);
+    expect(isValidCns('10000000000007')).toBe(false);
+  });
+
+  it('formats and masks in groups', () => {
+    expect(formatCns('1000000')).toBe('100 0000');
+    expect(formatCns('100000010000018')).toBe('100 0000 1000 0018');
+    expect(maskCns('100000010000018')).toBe('*** 0000 1000 ****');
+  });
+});
+
+describe('displayIdentifier', () => {
+  it('shows the full value only to privileged viewers', () => {
+    expect(displayIdentifier('cpf', '52998224725', true)).toBe('529.982.247-25');
+    expect(displayIdentifier('cpf', '52998224725', false)).toBe('***.982.247-**');
+    expect(displayIdentifier('cns', '700000000000005', false)).toBe('*** 0000 0000 ****');
+  });
+});
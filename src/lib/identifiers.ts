@@ -0,0 +1,113 @@
+/** Brazilian patient identifiers: CPF (taxpayer ID) and CNS (Cartão Nacional de Saúde). */
+export type PatientIdentifier = 'cpf' | 'cns';
+
+export const IDENTIFIER_LABELS: Record<PatientIdentifier, string> = {
+  cpf: 'CPF',
+  cns: 'CNS'
+};
+
+export const onlyDigits = (value: string) => value.replace(/\D/g, '');
+
+/** Applies the `000.000.000-00` mask to whatever digits have been typed so far. */
+export const formatCpf = (value: string) => {
+  const digits = onlyDigits(value).slice(0, 11);
+  return digits
+    .replace(/^(\d{3})(\d)/, '$1.$2')
+    .replace(/^(\d{3})\.(\d{3})(\d)/, '$1.$2.$3')
+    .replace(/\.(\d{3})(\d{1,2})$/, '.$1-$2');
+};
+
+/** Applies the `000 0000 0000 0000` mask to whatever digits have been typed so far. */
+export const formatCns = (value: string) => {
+  const digits = onlyDigits(value).slice(0, 15);
+  return digits
+    .replace(/^(\d{3})(\d)/, '$1 $2')
+    .replace(/^(\d{3}) (\d{4})(\d)/, '$1 $2 $3')
+    .replace(/^(\d{3}) (\d{4}) (\d{4})(\d)/, '$1 $2 $3 $4');
+};
+
+export const isValidCpf = (value: string) => {
+  const digits = onlyDigits(value);
+  // Repeated digits pass the check-digit arithmetic but are not issued
+  if (digits.length !== 11 || /^(\d)\1{10}$/.test(digits)) return false;
+
+  const checkDigit = (length: number) => {
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      sum += Number(digits[i]) * (length + 1 - i);
+    }
+    const rest = (sum * 10) % 11;
+    return rest === 10 ? 0 : rest;
+  };
+
+  return checkDigit(9) === Number(digits[9]) && checkDigit(10) === Number(digits[10]);
+};
+
+/**
+ * Validates a CNS. Definitive cards (starting with 1 or 2) are derived from
+ * the holder's PIS and end in a check digit computed from it; provisional
+ * cards (starting with 7, 8 or 9) must have a weighted digit sum divisible by 11.
+ */
+export const isValidCns = (value: string) => {
+  const digits = onlyDigits(value);
+  if (digits.length !== 15) return false;
+
+  const weightedSum = (length: number) => {
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      sum += Number(digits[i]) * (15 - i);
+    }
+    return sum;
+  };
+
+  if (/^[12]/.test(digits)) {
+    const pis = digits.slice(0, 11);
+    let sum = weightedSum(11);
+    let checkDigit = 11 - (sum % 11);
+    if (checkDigit === 11) checkDigit = 0;
+
+    let expected = `${pis}000${checkDigit}`;
+    if (checkDigit === 10) {
+      sum += 2;
+      checkDigit = 11 - (sum % 11);
+      expected = `${pis}001${checkDigit}`;
+    }
+    return digits === expected;
+  }
+
+  if (/^[789]/.test(digits)) {
+    return weightedSum(15) % 11 === 0;
+  }
+
+  return false;
+};
+
+/** Hides the first and last groups, e.g. `***.456.789-**`. */
+export const maskCpf = (value: string) => {
+  const digits = onlyDigits(value);
+  if (digits.length !== 11) return '***.***.***-**';
+  return `***.${digits.slice(3, 6)}.${digits.slice(6, 9)}-**`;
+};
+
+/** Hides the first and last groups, e.g. `*** 4567 8901 ****`. */
+export const maskCns = (value: string) => {
+  const digits = onlyDigits(value);
+  if (digits.length !== 15) return '*** **** **** ****';
+  return `*** ${digits.slice(3, 7)} ${digits.slice(7, 11)} ****`;
+};
+
+export const IDENTIFIER_RULES: Record<PatientIdentifier, {
+  length: number;
+  format: (value: string) => string;
+  mask: (value: string) => string;
+  isValid: (value: string) => boolean;
+}> = {
+  cpf: { length: 11, format: formatCpf, mask: maskCpf, isValid: isValidCpf },
+  cns: { length: 15, format: formatCns, mask: maskCns, isValid: isValidCns }
+};
+
+/** Formats a stored identifier for display, masked unless the viewer is privileged. */
+export const displayIdentifier = (type: PatientIdentifier, value: string, privileged: boolean) => {
+  const rules = IDENTIFIER_RULES[type];
+  return privileged ? rules.format(value) : rules.mask(value);
+};
@@ -0,0 +1,130 @@
+export type CompressionFormat = 'image/webp' | 'image/jpeg';
+
+export interface CompressionOptions {
+  /** Longest side of the output image, in pixels */
+  maxLongEdge: number;
+  /** Never downscale below this long edge, so the ECG grid stays legible */
+  minLongEdge: number;
+  format: CompressionFormat;
+  /** Initial encoder quality, between 0 and 1 */
+  quality: number;
+  /** Lowest quality the encoder may fall back to while chasing the byte budget */
+  minQuality: number;
+  /** Byte budget for the encoded image; 0 disables the budget */
+  targetBytes: number;
+}
+
+export interface CompressionResult {
+  blob: Blob;
+  width: number;
+  height: number;
+  originalSize: number;
+  compressedSize: number;
+}
+
+export const DEFAULT_COMPRESSION_OPTIONS: CompressionOptions = {
+  maxLongEdge: 2400,
+  minLongEdge: 1600,
+  format: 'image/webp',
+  quality: 0.85,
+  minQuality: 0.6,
+  targetBytes: 800 * 1024
+};
+
+/**
+ * Types `compressImage` may return: what it encodes to, and originals of these
+ * types kept as is when re-encoding would not shrink them. Anything else, such
+ * as GIF or BMP, is always re-encoded.
+ */
+export const COMPRESSED_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const QUALITY_STEP = 0.1;
+const SCALE_STEP = 0.85;
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const encode = async (
+  bitmap: ImageBitmap,
+  width: number,
+  height: number,
+  format: CompressionFormat,
+  quality: number
+): Promise<Blob> => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d');
+    context.drawImage(bitmap, 0, 0, width, height);
+    return canvas.convertToBlob({ type: format, quality });
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  context.drawImage(bitmap, 0, 0, width, height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))),
+      format,
+      quality
+    );
+  });
+};
+
+/**
+ * Downscales and re-encodes an image so it fits the configured size and byte
+ * budget. Quality is lowered first, then the resolution, but never below
+ * `minLongEdge`; if the budget still cannot be met the smallest legible
+ * result is returned.
+ */
+export const compressImage = async (
+  file: Blob,
+  options: Partial<CompressionOptions> = {}
+): Promise<CompressionResult> => {
+  const settings = { ...DEFAULT_COMPRESSION_OPTIONS, ...options };
+  const bitmap = await createImageBitmap(file);
+
+  try {
+    const longEdge = Math.max(bitmap.width, bitmap.height);
+    const floorEdge = Math.min(longEdge, settings.minLongEdge);
+    let targetEdge = Math.max(Math.min(longEdge, settings.maxLongEdge), floorEdge);
+    let quality = settings.quality;
+    let format = settings.format;
+
+    for (;;) {
+      const scale = targetEdge / longEdge;
+      const width = Math.round(bitmap.width * scale);
+      const height = Math.round(bitmap.height * scale);
+      let blob = await encode(bitmap, width, height, format, quality);
+
+      // Browsers without a WebP encoder silently fall back to PNG
+      if (blob.type !== format && format === 'image/webp') {
+        format = 'image/jpeg';
+        blob = await encode(bitmap, width, height, format, quality);
+      }
+
+      const withinBudget = !settings.targetBytes || blob.size <= settings.targetBytes;
+      if (withinBudget || (quality <= settings.minQuality && targetEdge <= floorEdge)) {
+        // Re-encoding can inflate files that were already small enough
+        const canKeepOriginal = targetEdge === longEdge && COMPRESSED_CONTENT_TYPES.includes(file.type);
+        if (canKeepOriginal && file.size <= blob.size && (!settings.targetBytes || file.size <= settings.targetBytes)) {
+          return { blob: file, width, height, originalSize: file.size, compressedSize: file.size };
+        }
+        return { blob, width, height, originalSize: file.size, compressedSize: blob.size };
+      }
+
+      if (quality > settings.minQuality) {
+        quality = Math.max(settings.minQuality, quality - QUALITY_STEP);
+      } else {
+        targetEdge = Math.max(floorEdge, Math.round(targetEdge * SCALE_STEP));
+      }
+    }
+  } finally {
+    bitmap.close();
+  }
+};
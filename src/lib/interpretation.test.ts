@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { interpretMeasurements, labelStatement } from '@/lib/interpretation';
+import { EcgMeasurements, EMPTY_MEASUREMENTS } from '@/lib/measurements';
+
+const ruleIds = (changes: Partial<EcgMeasurements>) => {
+  return interpretMeasurements({ ...EMPTY_MEASUREMENTS, ...changes }).map(({ ruleId }) => ruleId);
+};
+
+describe('interpretMeasurements', () => {
+  it('says nothing without measurements or within normal limits', () => {
+    expect(interpretMeasurements(EMPTY_MEASUREMENTS)).toEqual([]);
+    expect(ruleIds({ heartRate: 75, prInterval: 160, qrsDuration: 90, qtInterval: 380, qrsAxis: 45 })).toEqual([]);
+  });
+
+  it('flags a heart rate below 60 or above 100 bpm', () => {
+    expect(ruleIds({ heartRate: 59 })).toEqual(['sinus-bradycardia']);
+    expect(ruleIds({ heartRate: 60 })).toEqual([]);
+    expect(ruleIds({ heartRate: 100 })).toEqual([]);
+    expect(ruleIds({ heartRate: 101 })).toEqual(['sinus-tachycardia']);
+  });
+
+  it('flags a PR interval above 200 ms', () => {
+    expect(ruleIds({ prInterval: 200 })).toEqual([]);
+    expect(ruleIds({ prInterval: 201 })).toEqual(['first-degree-av-block']);
+  });
+
+  it('flags a QRS of 120 ms or more', () => {
+    expect(ruleIds({ qrsDuration: 119 })).toEqual([]);
+    expect(ruleIds({ qrsDuration: 120 })).toEqual(['wide-qrs']);
+  });
+
+  it('flags a Bazett QTc above 460 ms', () => {
+    // At 60 bpm the RR interval is 1 s, so the QTc equals the QT
+    expect(ruleIds({ heartRate: 60, qtInterval: 460 })).toEqual([]);
+    expect(ruleIds({ heartRate: 60, qtInterval: 461 })).toEqual(['prolonged-qtc']);
+    // 400 ms at 90 bpm corrects to 490 ms
+    expect(ruleIds({ heartRate: 90, qtInterval: 400 })).toEqual(['prolonged-qtc']);
+    expect(ruleIds({ qtInterval: 500 })).toEqual([]);
+  });
+
+  it('flags a QRS axis beyond -30° or 90°', () => {
+    expect(ruleIds({ qrsAxis: -31 })).toEqual(['left-axis-deviation']);
+    expect(ruleIds({ qrsAxis: -30 })).toEqual([]);
+    expect(ruleIds({ qrsAxis: 0 })).toEqual([]);
+    expect(ruleIds({ qrsAxis: 90 })).toEqual([]);
+    expect(ruleIds({ qrsAxis: 91 })).toEqual(['right-axis-deviation']);
+  });
+
+  it('reports each statement with the value that met its rule, in rule order', () => {
+    expect(interpretMeasurements({ ...EMPTY_MEASUREMENTS, heartRate: 48, prInterval: 240, qrsAxis: -45 })).toEqual([
+      { ruleId: 'sinus-bradycardia', statement: 'Bradicardia sinusal', rule: 'FC < 60 bpm (FC = 48 bpm)' },
+      { ruleId: 'first-degree-av-block', statement: 'Bloqueio atrioventricular de 1º grau', rule: 'PR > 200 ms (PR = 240 ms)' },
+      {
+        ruleId: 'left-axis-deviation',
+        statement: 'Desvio do eixo elétrico para a esquerda',
+        rule: 'Eixo QRS < -30° (eixo = -45°)'
+      }
+    ]);
+  });
+});
+
+describe('labelStatement', () => {
+  it('marks the statement as computer generated', () => {
+    expect(labelStatement('QRS alargado')).toBe('[Gerado por computador] QRS alargado');
+  });
+});
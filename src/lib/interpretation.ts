@@ -0,0 +1,73 @@
+import { computeQtc, EcgMeasurements } from '@/lib/measurements';
+
+/** A preliminary statement and the rule that produced it. */
+export interface InterpretationStatement {
+  ruleId: string;
+  statement: string;
+  /** Human-readable criterion with the value that met it */
+  rule: string;
+}
+
+interface InterpretationRule {
+  id: string;
+  statement: string;
+  evaluate: (measurements: EcgMeasurements) => string | null;
+}
+
+const RULES: InterpretationRule[] = [
+  {
+    id: 'sinus-bradycardia',
+    statement: 'Bradicardia sinusal',
+    evaluate: ({ heartRate }) => (heartRate !== null && heartRate < 60 ? `FC < 60 bpm (FC = ${heartRate} bpm)` : null)
+  },
+  {
+    id: 'sinus-tachycardia',
+    statement: 'Taquicardia sinusal',
+    evaluate: ({ heartRate }) => (heartRate !== null && heartRate > 100 ? `FC > 100 bpm (FC = ${heartRate} bpm)` : null)
+  },
+  {
+    id: 'first-degree-av-block',
+    statement: 'Bloqueio atrioventricular de 1º grau',
+    evaluate: ({ prInterval }) => (prInterval !== null && prInterval > 200 ? `PR > 200 ms (PR = ${prInterval} ms)` : null)
+  },
+  {
+    id: 'wide-qrs',
+    statement: 'QRS alargado',
+    evaluate: ({ qrsDuration }) => (qrsDuration !== null && qrsDuration >= 120 ? `QRS ≥ 120 ms (QRS = ${qrsDuration} ms)` : null)
+  },
+  {
+    id: 'prolonged-qtc',
+    statement: 'QTc prolongado',
+    evaluate: ({ qtInterval, heartRate }) => {
+      const { bazett } = computeQtc(qtInterval, heartRate);
+      return bazett !== null && bazett > 460 ? `QTc (Bazett) > 460 ms (QTc = ${bazett} ms)` : null;
+    }
+  },
+  {
+    id: 'left-axis-deviation',
+    statement: 'Desvio do eixo elétrico para a esquerda',
+    evaluate: ({ qrsAxis }) => (qrsAxis !== null && qrsAxis < -30 ? `Eixo QRS < -30° (eixo = ${qrsAxis}°)` : null)
+  },
+  {
+    id: 'right-axis-deviation',
+    statement: 'Desvio do eixo elétrico para a direita',
+    evaluate: ({ qrsAxis }) => (qrsAxis !== null && qrsAxis > 90 ? `Eixo QRS > 90° (eixo = ${qrsAxis}°)` : null)
+  }
+];
+
+/** Marks suggestion text inserted into the description, so readers can tell it was not written by hand. */
+export const COMPUTER_GENERATED_LABEL = '[Gerado por computador]';
+
+/** The statement as it is inserted into the description. */
+export const labelStatement = (statement: string) => `${COMPUTER_GENERATED_LABEL} ${statement}`;
+
+/**
+ * Runs the fixed rule set over the entered measurements. The same input
+ * always yields the same statements, in rule order.
+ */
+export const interpretMeasurements = (measurements: EcgMeasurements): InterpretationStatement[] => {
+  return RULES.flatMap(({ id, statement, evaluate }) => {
+    const rule = evaluate(measurements);
+    return rule ? [{ ruleId: id, statement, rule }] : [];
+  });
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeQtc,
+  EMPTY_MEASUREMENTS,
+  fromStoredMeasurements,
+  getRangeFlag,
+  getReferenceRange,
+  hasMeasurements,
+  toStoredMeasurements
+} from '@/lib/measurements';
+
+describe('computeQtc', () => {
+  it('leaves QT unchanged at 60 bpm', () => {
+    expect(computeQtc(400, 60)).toEqual({ bazett: 400, fridericia: 400, framingham: 400, hodges: 400 });
+  });
+
+  it('corrects QT by each formula', () => {
+    // RR = 0.8 s
+    expect(computeQtc(400, 75)).toEqual({ bazett: 447, fridericia: 431, framingham: 431, hodges: 426 });
+  });
+
+  it('needs both QT and heart rate', () => {
+    const empty = { bazett: null, fridericia: null, framingham: null, hodges: null };
+    expect(computeQtc(null, 75)).toEqual(empty);
+    expect(computeQtc(400, null)).toEqual(empty);
+    expect(computeQtc(400, 0)).toEqual(empty);
+  });
+});
+
+describe('stored measurements', () => {
+  const measurements = { ...EMPTY_MEASUREMENTS, heartRate: 75, qtInterval: 400, qrsAxis: -45 };
+
+  it('adds the derived QTc when storing', () => {
+    expect(toStoredMeasurements(measurements)).toEqual({
+      ...measurements,
+      qtcBazett: 447,
+      qtcFridericia: 431,
+      qtcFramingham: 431,
+      qtcHodges: 426
+    });
+  });
+
+  it('reads back only the entered values', () => {
+    expect(fromStoredMeasurements(toStoredMeasurements(measurements))).toEqual(measurements);
+    expect(fromStoredMeasurements({ heartRate: '80' as unknown as number })).toEqual(EMPTY_MEASUREMENTS);
+    expect(fromStoredMeasurements(null)).toEqual(EMPTY_MEASUREMENTS);
+  });
+
+  it('tells whether any value was entered', () => {
+    expect(hasMeasurements(EMPTY_MEASUREMENTS)).toBe(false);
+    expect(hasMeasurements({ ...EMPTY_MEASUREMENTS, pAxis: 0 })).toBe(true);
+  });
+});
+
+describe('getRangeFlag', () => {
+  it('flags values outside the reference range, inclusive of its limits', () => {
+    expect(getRangeFlag('heartRate', 59)).toBe('low');
+    expect(getRangeFlag('heartRate', 60)).toBeNull();
+    expect(getRangeFlag('heartRate', 100)).toBeNull();
+    expect(getRangeFlag('heartRate', 101)).toBe('high');
+    expect(getRangeFlag('qtcBazett', 461)).toBe('high');
+  });
+
+  it('does not flag missing values or fields without a range', () => {
+    expect(getRangeFlag('prInterval', null)).toBeNull();
+    expect(getRangeFlag('qtInterval', 600)).toBeNull();
+    expect(getReferenceRange('qtInterval')).toBeNull();
+    expect(getReferenceRange('qrsAxis')).toEqual([-30, 90]);
+  });
+});
@@ -0,0 +1,132 @@
+/** Intervals in milliseconds, heart rate in bpm and axes in degrees. */
+export interface EcgMeasurements {
+  heartRate: number | null;
+  prInterval: number | null;
+  qrsDuration: number | null;
+  qtInterval: number | null;
+  pAxis: number | null;
+  qrsAxis: number | null;
+  tAxis: number | null;
+}
+
+export type QtcFormula = 'bazett' | 'fridericia' | 'framingham' | 'hodges';
+
+export type QtcValues = Record<QtcFormula, number | null>;
+
+/**
+ * Measurements as persisted on the record: the typed values entered by the
+ * reader plus the corrected QT computed from them, so records can be queried
+ * by any of them, e.g. `where('measurements.qtcBazett', '>', 460)`.
+ */
+export interface StoredMeasurements extends EcgMeasurements {
+  qtcBazett: number | null;
+  qtcFridericia: number | null;
+  qtcFramingham: number | null;
+  qtcHodges: number | null;
+}
+
+export type MeasurementField = keyof StoredMeasurements;
+
+export type RangeFlag = 'low' | 'high' | null;
+
+export const EMPTY_MEASUREMENTS: EcgMeasurements = {
+  heartRate: null,
+  prInterval: null,
+  qrsDuration: null,
+  qtInterval: null,
+  pAxis: null,
+  qrsAxis: null,
+  tAxis: null
+};
+
+export const MEASUREMENT_LABELS: Record<keyof EcgMeasurements, { label: string; unit: string }> = {
+  heartRate: { label: 'FC', unit: 'bpm' },
+  prInterval: { label: 'PR', unit: 'ms' },
+  qrsDuration: { label: 'QRS', unit: 'ms' },
+  qtInterval: { label: 'QT', unit: 'ms' },
+  pAxis: { label: 'Eixo P', unit: '°' },
+  qrsAxis: { label: 'Eixo QRS', unit: '°' },
+  tAxis: { label: 'Eixo T', unit: '°' }
+};
+
+export const QTC_LABELS: Record<QtcFormula, string> = {
+  bazett: 'Bazett',
+  fridericia: 'Fridericia',
+  framingham: 'Framingham',
+  hodges: 'Hodges'
+};
+
+export const QTC_FIELDS: Record<QtcFormula, keyof StoredMeasurements> = {
+  bazett: 'qtcBazett',
+  fridericia: 'qtcFridericia',
+  framingham: 'qtcFramingham',
+  hodges: 'qtcHodges'
+};
+
+// Adult resting reference ranges; QTc uses the upper limit for women so only
+// clearly prolonged values are flagged when the patient's sex is unknown
+const REFERENCE_RANGES: Partial<Record<MeasurementField, [number, number]>> = {
+  heartRate: [60, 100],
+  prInterval: [120, 200],
+  qrsDuration: [60, 120],
+  pAxis: [0, 75],
+  qrsAxis: [-30, 90],
+  tAxis: [0, 90],
+  qtcBazett: [340, 460],
+  qtcFridericia: [340, 460],
+  qtcFramingham: [340, 460],
+  qtcHodges: [340, 460]
+};
+
+/**
+ * Heart-rate corrected QT in milliseconds by the four usual formulas.
+ * Values are null until both QT and heart rate are known.
+ */
+export const computeQtc = (qtInterval: number | null, heartRate: number | null): QtcValues => {
+  if (!qtInterval || !heartRate) {
+    return { bazett: null, fridericia: null, framingham: null, hodges: null };
+  }
+
+  const rr = 60 / heartRate;
+  return {
+    bazett: Math.round(qtInterval / Math.sqrt(rr)),
+    fridericia: Math.round(qtInterval / Math.cbrt(rr)),
+    framingham: Math.round(qtInterval + 154 * (1 - rr)),
+    hodges: Math.round(qtInterval + 1.75 * (heartRate - 60))
+  };
+};
+
+export const toStoredMeasurements = (measurements: EcgMeasurements): StoredMeasurements => {
+  const qtc = computeQtc(measurements.qtInterval, measurements.heartRate);
+  return {
+    ...measurements,
+    qtcBazett: qtc.bazett,
+    qtcFridericia: qtc.fridericia,
+    qtcFramingham: qtc.framingham,
+    qtcHodges: qtc.hodges
+  };
+};
+
+/** Reads the entered values back from a stored record, ignoring the derived QTc. */
+export const fromStoredMeasurements = (stored?: Partial<StoredMeasurements> | null): EcgMeasurements => {
+  const measurements = { ...EMPTY_MEASUREMENTS };
+  for (const field of Object.keys(EMPTY_MEASUREMENTS) as (keyof EcgMeasurements)[]) {
+    const value = stored?.[field];
+    measurements[field] = typeof value === 'number' ? value : null;
+  }
+  return measurements;
+};
+
+export const hasMeasurements = (measurements: EcgMeasurements) => {
+  return Object.values(measurements).some(value => value !== null);
+};
+
+export const getRangeFlag = (field: MeasurementField, value: number | null): RangeFlag => {
+  const range = REFERENCE_RANGES[field];
+  if (value === null || !range) return null;
+  if (value < range[0]) return 'low';
+  if (value > range[1]) return 'high';
+  return null;
+};
+
+export const getReferenceRange = (field: MeasurementField) => REFERENCE_RANGES[field] ?? null;
@@ -0,0 +1,202 @@
+import { describe, expect, it } from 'vitest';
+import { MedicalRecord, RecordImage } from '@/lib/firebase';
+import { EMPTY_MEASUREMENTS } from '@/lib/measurements';
+import { EcgSignal } from '@/lib/signal';
+import { getImageUrl } from '@/lib/storage';
+import { Patient } from '@/lib/patients';
+import { buildRecordDocument, buildRecordUpdate, RecordFileStore } from '@/lib/recordRepository';
+import {
+  createMemoryFileStore,
+  createMemoryPatientRepository,
+  createMemoryRecordRepository
+} from '@/lib/memoryRepository';
+
+const image = (name: string) => `data:image/png;base64,${btoa(name)}`;
+
+const pdf = (name: string) => `data:application/pdf;base64,${btoa(name)}`;
+
+const SIGNAL: EcgSignal = {
+  format: 'wfdb',
+  samplingRate: 500,
+  units: 'uV',
+  leads: [{ name: 'I', samples: [0, 10, 20] }],
+  metadata: {}
+};
+
+const PATIENT: Patient = {
+  name: 'Maria da Silva',
+  birthDate: '1960-05-12',
+  sex: 'female',
+  internalId: 'PR-1',
+  cpf: '52998224725',
+  cns: null
+};
+
+const newRecord = (changes: Partial<MedicalRecord> = {}): MedicalRecord => ({
+  patient: null,
+  ecg: [image('ecg-1')],
+  laudo: [image('laudo-1')],
+  ecgPdf: [],
+  laudoPdf: [],
+  ecgPdfPages: [],
+  laudoPdfPages: [],
+  signal: null,
+  measurements: EMPTY_MEASUREMENTS,
+  diagnoses: [],
+  descricao: 'Ritmo sinusal normal',
+  ...changes
+});
+
+// In-memory files that remember what was removed and fail the given uploads
+const trackFiles = (failing: string[] = []) => {
+  const store = createMemoryFileStore();
+  const removed: RecordImage[] = [];
+  const files: RecordFileStore = {
+    ...store,
+    upload: async (recordId, folder, dataUrl) => {
+      if (failing.includes(dataUrl)) throw new Error('Falha no upload');
+      return store.upload(recordId, folder, dataUrl);
+    },
+    remove: async file => {
+      removed.push(file);
+      await store.remove(file);
+    }
+  };
+  return { files, removed };
+};
+
+const urlsOf = (files: RecordImage[] | RecordImage) => (Array.isArray(files) ? files : [files]).map(getImageUrl);
+
+describe('createMemoryRecordRepository', () => {
+  it('creates a record and reads it back validated', async () => {
+    const repository = createMemoryRecordRepository();
+    const id = await repository.create(newRecord({ measurements: { ...EMPTY_MEASUREMENTS, heartRate: 75, qtInterval: 400 } }));
+
+    const { record, issues } = await repository.get(id);
+    expect(issues).toEqual([]);
+    expect(urlsOf(record.ecg)).toEqual([image('ecg-1')]);
+    expect(urlsOf(record.laudo)).toEqual([image('laudo-1')]);
+    expect(record.measurements.qtcBazett).toBe(447);
+    expect(record.created_at).toBeDefined();
+    expect(await repository.get('missing')).toBeNull();
+  });
+
+  it('lists records a page at a time', async () => {
+    const repository = createMemoryRecordRepository();
+    await repository.create(newRecord());
+    await repository.create(newRecord());
+
+    const first = await repository.list(1);
+    expect(first.rows).toHaveLength(1);
+    expect(first.hasNextPage).toBe(true);
+    const second = await repository.list(1, first.cursor);
+    expect(second.rows).toHaveLength(1);
+    expect(second.rows[0].id).not.toBe(first.rows[0].id);
+    expect(second.hasNextPage).toBe(false);
+  });
+
+  it('updates fields and removes the files left out', async () => {
+    const { files, removed } = trackFiles();
+    const repository = createMemoryRecordRepository({}, files);
+    const id = await repository.create(newRecord({ ecg: [image('ecg-1'), image('ecg-2')] }));
+
+    const updated = await repository.update(id, {
+      ecg: [image('ecg-2'), image('ecg-3')],
+      descricao: 'Bradicardia sinusal'
+    });
+
+    expect(urlsOf(updated.ecg)).toEqual([image('ecg-2'), image('ecg-3')]);
+    expect(updated.descricao).toBe('Bradicardia sinusal');
+    expect(updated.updated_at).toBeDefined();
+    expect(urlsOf(removed)).toEqual([image('ecg-1')]);
+    expect((await repository.get(id)).record).toEqual(updated);
+  });
+
+  it('drops the PDF links of removed pages', async () => {
+    const repository = createMemoryRecordRepository();
+    const id = await repository.create(newRecord({
+      ecg: [image('page-1'), image('page-2')],
+      ecgPdf: [pdf('exam')],
+      ecgPdfPages: [{ page: image('page-1'), pdf: pdf('exam') }, { page: image('page-2'), pdf: pdf('exam') }]
+    }));
+
+    const updated = await repository.update(id, { ecg: [image('page-2')] });
+    expect(updated.ecgPdfPages).toEqual([{ page: image('page-2'), pdf: pdf('exam') }]);
+  });
+
+  it('stores, replaces and removes the signal', async () => {
+    const { files, removed } = trackFiles();
+    const repository = createMemoryRecordRepository({}, files);
+    const id = await repository.create(newRecord({ signal: SIGNAL }));
+    const { record } = await repository.get(id);
+    expect(await repository.loadSignal(record.signal)).toEqual(SIGNAL);
+
+    const updated = await repository.update(id, { signal: null });
+    expect(updated.signal).toBeNull();
+    expect(removed).toEqual([record.signal]);
+    await expect(repository.loadSignal(record.signal)).rejects.toThrow('não encontrado');
+  });
+
+  it('deletes the record and its files', async () => {
+    const { files, removed } = trackFiles();
+    const repository = createMemoryRecordRepository({}, files);
+    const id = await repository.create(newRecord());
+
+    await repository.delete(id);
+    expect(await repository.get(id)).toBeNull();
+    expect(urlsOf(removed)).toEqual([image('ecg-1'), image('laudo-1')]);
+  });
+
+  it('rejects updates of unknown records', async () => {
+    await expect(createMemoryRecordRepository().update('missing', {})).rejects.toThrow('Registro missing não encontrado');
+  });
+
+  it('links records to their patient', async () => {
+    const patient = await createMemoryPatientRepository().create(PATIENT);
+    const repository = createMemoryRecordRepository();
+    const id = await repository.create(newRecord({ patient }));
+    await repository.create(newRecord());
+
+    expect((await repository.get(id)).record.patientId).toBe(patient.id);
+    expect((await repository.query({ patientId: patient.id })).map(row => row.id)).toEqual([id]);
+
+    await repository.update(id, { patient: null });
+    expect(await repository.query({ patientId: patient.id })).toEqual([]);
+  });
+});
+
+describe('buildRecordDocument', () => {
+  it('removes the uploads that succeeded when another one fails', async () => {
+    const { files, removed } = trackFiles([image('laudo-1')]);
+
+    await expect(buildRecordDocument(files, 'record-1', newRecord({ signal: SIGNAL }))).rejects.toThrow('Falha no upload');
+    expect(urlsOf(removed)).toContain(image('ecg-1'));
+    expect(removed.some(file => typeof file !== 'string' && file.path.startsWith('record-1/signal/'))).toBe(true);
+  });
+});
+
+describe('buildRecordUpdate', () => {
+  it('lists the stored files left out of the changes for removal', async () => {
+    const { files } = trackFiles();
+    const stored = await buildRecordDocument(files, 'record-1', newRecord({ laudo: [image('laudo-1'), image('laudo-2')] }));
+
+    const { updates, removed, uploaded } = await buildRecordUpdate(files, 'record-1', stored, {
+      laudo: [image('laudo-2'), image('laudo-3')]
+    });
+
+    expect(urlsOf(updates.laudo)).toEqual([image('laudo-2'), image('laudo-3')]);
+    expect(urlsOf(removed)).toEqual([image('laudo-1')]);
+    expect(urlsOf(uploaded)).toEqual([image('laudo-3')]);
+    expect(updates.ecg).toBeUndefined();
+  });
+
+  it('removes its own uploads when a later one fails', async () => {
+    const { files, removed } = trackFiles([image('ecg-3')]);
+    const stored = await buildRecordDocument(files, 'record-1', newRecord());
+
+    await expect(buildRecordUpdate(files, 'record-1', stored, {
+      ecg: [image('ecg-1'), image('ecg-2'), image('ecg-3')]
+    })).rejects.toThrow('Falha no upload');
+    expect(urlsOf(removed)).toEqual([image('ecg-2')]);
+  });
+});
@@ -0,0 +1,167 @@
+import { Timestamp } from 'firebase/firestore';
+import { MedicalRecordDocument } from '@/lib/firebase';
+import { EcgSignal, SIGNAL_CONTENT_TYPE, summarizeSignal } from '@/lib/signal';
+import { getDataUrlBytes, validateRecord } from '@/lib/recordSchema';
+import { getDataUrlContentType } from '@/lib/storage';
+import { onlyDigits } from '@/lib/identifiers';
+import {
+  createDuplicateIdentifierError,
+  normalizeSearchText,
+  PATIENT_SEARCH_LIMIT,
+  PatientRepository,
+  PatientRow,
+  toPatientDocument
+} from '@/lib/patients';
+import {
+  buildRecordDocument,
+  buildRecordUpdate,
+  getRecordFiles,
+  MedicalRecordRepository,
+  RecordFileStore,
+  removeRecordFiles
+} from '@/lib/recordRepository';
+
+const generateId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Keeps files in the browser: uploaded files stay as their data URLs and
+ * signals are held as parsed objects, keyed by a made-up Storage path.
+ */
+export const createMemoryFileStore = (): RecordFileStore => {
+  const signals = new Map<string, EcgSignal>();
+
+  return {
+    upload: async (recordId, folder, dataUrl) => ({
+      path: `${recordId}/${folder}/${generateId()}`,
+      contentType: getDataUrlContentType(dataUrl),
+      size: getDataUrlBytes(dataUrl),
+      url: dataUrl
+    }),
+    uploadSignal: async (recordId, signal) => {
+      const path = `${recordId}/signal/${generateId()}`;
+      signals.set(path, signal);
+      return summarizeSignal(signal, { path, contentType: SIGNAL_CONTENT_TYPE, size: 0, url: '' });
+    },
+    loadSignal: async signal => {
+      const found = signals.get(signal.path);
+      if (!found) {
+        throw new Error(`Sinal ${signal.path} não encontrado`);
+      }
+      return found;
+    },
+    remove: async file => {
+      if (typeof file !== 'string') signals.delete(file.path);
+    }
+  };
+};
+
+/** Records held in memory, lost on reload. Reads return validated copies. */
+export const createMemoryRecordRepository = (
+  seed: Record<string, MedicalRecordDocument> = {},
+  files: RecordFileStore = createMemoryFileStore()
+): MedicalRecordRepository => {
+  const documents = new Map(Object.entries(seed));
+
+  const get = async (id: string) => {
+    const document = documents.get(id);
+    return document ? validateRecord(id, document) : null;
+  };
+
+  return {
+    create: async record => {
+      const id = generateId();
+      const document = await buildRecordDocument(files, id, record);
+      documents.set(id, { ...document, created_at: Timestamp.now() });
+      return id;
+    },
+
+    get,
+
+    list: async (pageSize, after) => {
+      const sorted = [...documents.entries()].sort(([, a], [, b]) => {
+        return (b.created_at?.toMillis() ?? 0) - (a.created_at?.toMillis() ?? 0);
+      });
+      // The cursor is the number of records already listed
+      const start = (after as number) ?? 0;
+      const page = sorted.slice(start, start + pageSize);
+
+      return {
+        rows: page.map(([id, document]) => validateRecord(id, document)),
+        hasNextPage: sorted.length > start + pageSize,
+        cursor: page.length > 0 ? start + page.length : null
+      };
+    },
+
+    update: async (id, changes) => {
+      const current = documents.get(id);
+      if (!current) {
+        throw new Error(`Registro ${id} não encontrado`);
+      }
+
+      const { updates, removed } = await buildRecordUpdate(files, id, current, changes);
+      const updated = { ...current, ...updates, updated_at: Timestamp.now() };
+      documents.set(id, updated);
+      await removeRecordFiles(files, removed);
+      return updated;
+    },
+
+    delete: async id => {
+      const current = documents.get(id);
+      documents.delete(id);
+      if (current) {
+        await removeRecordFiles(files, getRecordFiles(current));
+      }
+    },
+
+    query: async ({ patientId }) => {
+      return [...documents.entries()]
+        .filter(([, document]) => document.patientId === patientId)
+        .map(([id, document]) => validateRecord(id, document));
+    },
+
+    loadSignal: files.loadSignal
+  };
+};
+
+/** Patients held in memory, searched the same way as in Firestore. */
+export const createMemoryPatientRepository = (seed: PatientRow[] = []): PatientRepository => {
+  const patients = new Map(seed.map(patient => [patient.id, patient]));
+
+  const findByIdentifier: PatientRepository['findByIdentifier'] = async (type, value) => {
+    const digits = onlyDigits(value);
+    return [...patients.values()].find(patient => patient[type] === digits) ?? null;
+  };
+
+  return {
+    search: async term => {
+      const searchName = normalizeSearchText(term);
+      if (!searchName) return [];
+
+      const digits = onlyDigits(term);
+      return [...patients.values()]
+        .filter(patient => {
+          return patient.searchName.startsWith(searchName)
+            || patient.internalId === term.trim()
+            || (digits.length > 0 && (patient.cpf === digits || patient.cns === digits));
+        })
+        .slice(0, PATIENT_SEARCH_LIMIT);
+    },
+
+    create: async patient => {
+      const document = toPatientDocument(patient);
+      // Checked and inserted without awaiting in between, so concurrent calls cannot both pass
+      for (const type of ['cpf', 'cns'] as const) {
+        const existing = document[type] && [...patients.values()].find(item => item[type] === document[type]);
+        if (existing) throw createDuplicateIdentifierError(type, existing.id);
+      }
+
+      const row: PatientRow = { id: generateId(), ...document, created_at: Timestamp.now() };
+      patients.set(row.id, row);
+      return row;
+    },
+
+    findByIdentifier,
+
+    get: async patientId => patients.get(patientId) ?? null
+  };
+};
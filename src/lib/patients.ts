@@ -0,0 +1,189 @@
+import {
+  collection,
+  doc,
+  Firestore,
+  getDoc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  runTransaction,
+  Timestamp,
+  where
+} from 'firebase/firestore';
+import { differenceInYears, parseISO } from 'date-fns';
+import { onlyDigits, PatientIdentifier } from '@/lib/identifiers';
+
+export const PATIENTS_COLLECTION = 'patients';
+
+/**
+ * One document per registered CPF or CNS, with the ID `{type}-{digits}`.
+ * Patients are created together with their entries in a transaction, which
+ * is what keeps identifiers unique when two operators register at once.
+ */
+export const PATIENT_IDENTIFIERS_COLLECTION = 'patient_identifiers';
+
+export type PatientSex = 'female' | 'male' | 'other';
+
+export interface Patient {
+  name: string;
+  /** ISO date, `yyyy-MM-dd` */
+  birthDate: string;
+  sex: PatientSex;
+  /** Identifier used by the clinic, e.g. the medical record number */
+  internalId: string;
+  /** CPF digits, without mask */
+  cpf: string | null;
+  /** Cartão Nacional de Saúde digits, without mask */
+  cns: string | null;
+}
+
+export interface PatientDocument extends Patient {
+  /** Lowercased name without accents, for prefix search */
+  searchName: string;
+  created_at?: Timestamp;
+  updated_at?: Timestamp;
+}
+
+export interface PatientRow extends PatientDocument {
+  id: string;
+}
+
+/** Storage of patients; see MedicalRecordRepository for records. */
+export interface PatientRepository {
+  search: (term: string) => Promise<PatientRow[]>;
+  /** Rejects with a DuplicateIdentifierError if the CPF or CNS is already registered */
+  create: (patient: Patient) => Promise<PatientRow>;
+  findByIdentifier: (type: PatientIdentifier, value: string) => Promise<PatientRow | null>;
+  get: (patientId: string) => Promise<PatientRow | null>;
+}
+
+/** Rejection of a new patient whose CPF or CNS is already registered. */
+export interface DuplicateIdentifierError extends Error {
+  code: 'duplicate-identifier';
+  identifier: PatientIdentifier;
+  /** Patient that holds the identifier */
+  patientId: string;
+}
+
+export const createDuplicateIdentifierError = (identifier: PatientIdentifier, patientId: string) => {
+  const error = new Error(`Identificador ${identifier} já cadastrado para o paciente ${patientId}`);
+  return Object.assign(error, { code: 'duplicate-identifier', identifier, patientId }) as DuplicateIdentifierError;
+};
+
+export const isDuplicateIdentifierError = (error: unknown): error is DuplicateIdentifierError => {
+  return (error as { code?: string })?.code === 'duplicate-identifier';
+};
+
+export const SEX_LABELS: Record<PatientSex, string> = {
+  female: 'Feminino',
+  male: 'Masculino',
+  other: 'Outro'
+};
+
+export const PATIENT_SEARCH_LIMIT = 10;
+
+export const normalizeSearchText = (value: string) => {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+};
+
+export const getPatientAge = (patient: Patient) => {
+  return patient.birthDate ? differenceInYears(new Date(), parseISO(patient.birthDate)) : null;
+};
+
+/**
+ * Finds patients whose name starts with the term, or whose internal ID, CPF
+ * or CNS matches it exactly.
+ */
+export const searchPatients = async (db: Firestore, term: string): Promise<PatientRow[]> => {
+  const searchName = normalizeSearchText(term);
+  if (!searchName) return [];
+
+  const patients = collection(db, PATIENTS_COLLECTION);
+  const digits = onlyDigits(term);
+  const [byName, byInternalId, byIdentifier] = await Promise.all([
+    getDocs(query(
+      patients,
+      orderBy('searchName'),
+      where('searchName', '>=', searchName),
+      where('searchName', '<=', `${searchName}\uf8ff`),
+      limit(PATIENT_SEARCH_LIMIT)
+    )),
+    getDocs(query(patients, where('internalId', '==', term.trim()), limit(PATIENT_SEARCH_LIMIT))),
+    digits.length === 11 || digits.length === 15
+      ? getDocs(query(patients, where(digits.length === 11 ? 'cpf' : 'cns', '==', digits), limit(PATIENT_SEARCH_LIMIT)))
+      : null
+  ]);
+
+  const rows = new Map<string, PatientRow>();
+  for (const snapshot of [...(byIdentifier?.docs ?? []), ...byInternalId.docs, ...byName.docs]) {
+    rows.set(snapshot.id, { id: snapshot.id, ...(snapshot.data() as PatientDocument) });
+  }
+  return [...rows.values()];
+};
+
+/** Normalizes the form fields of a new patient and adds the search key. */
+export const toPatientDocument = (patient: Patient): PatientDocument => ({
+  ...patient,
+  name: patient.name.trim(),
+  internalId: patient.internalId.trim(),
+  cpf: patient.cpf ? onlyDigits(patient.cpf) : null,
+  cns: patient.cns ? onlyDigits(patient.cns) : null,
+  searchName: normalizeSearchText(patient.name)
+});
+
+/**
+ * Adds the patient and claims its identifiers in one transaction. Rejects with
+ * a DuplicateIdentifierError when another patient already holds one of them.
+ */
+export const createPatient = async (db: Firestore, patient: Patient): Promise<PatientRow> => {
+  const document = toPatientDocument(patient);
+  const patientRef = doc(collection(db, PATIENTS_COLLECTION));
+  const identifiers = (['cpf', 'cns'] as PatientIdentifier[]).filter(type => document[type]);
+
+  await runTransaction(db, async transaction => {
+    const claims = identifiers.map(type => ({
+      type,
+      ref: doc(db, PATIENT_IDENTIFIERS_COLLECTION, `${type}-${document[type]}`)
+    }));
+    // Transactions require every read before the first write
+    const snapshots = await Promise.all(claims.map(claim => transaction.get(claim.ref)));
+    snapshots.forEach((snapshot, index) => {
+      if (snapshot.exists()) {
+        throw createDuplicateIdentifierError(claims[index].type, snapshot.data().patientId);
+      }
+    });
+
+    transaction.set(patientRef, { ...document, created_at: new Date() });
+    claims.forEach(claim => transaction.set(claim.ref, { patientId: patientRef.id }));
+  });
+
+  return { id: patientRef.id, ...document };
+};
+
+/** Returns the patient already registered with the identifier, if any. */
+export const findPatientByIdentifier = async (
+  db: Firestore,
+  type: PatientIdentifier,
+  value: string
+): Promise<PatientRow | null> => {
+  const snapshot = await getDocs(query(
+    collection(db, PATIENTS_COLLECTION),
+    where(type, '==', onlyDigits(value)),
+    limit(1)
+  ));
+  const match = snapshot.docs[0];
+  return match ? { id: match.id, ...(match.data() as PatientDocument) } : null;
+};
+
+export const getPatient = async (db: Firestore, patientId: string): Promise<PatientRow | null> => {
+  const snapshot = await getDoc(doc(db, PATIENTS_COLLECTION, patientId));
+  return snapshot.exists() ? { id: snapshot.id, ...(snapshot.data() as PatientDocument) } : null;
+};
+
+export const createFirestorePatientRepository = (db: Firestore): PatientRepository => ({
+  search: term => searchPatients(db, term),
+  create: patient => createPatient(db, patient),
+  findByIdentifier: (type, value) => findPatientByIdentifier(db, type, value),
+  get: patientId => getPatient(db, patientId)
+});
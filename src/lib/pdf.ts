@@ -0,0 +1,48 @@
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+export const PDF_CONTENT_TYPE = 'application/pdf';
+
+export const isPdf = (file: Blob) => file.type === PDF_CONTENT_TYPE;
+
+// pdf.js is large, so it is only loaded once a PDF is actually dropped
+const loadPdfJs = async () => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+  return pdfjs;
+};
+
+/**
+ * Rasterizes every page of a PDF to a PNG blob whose long edge is
+ * `longEdge` pixels, ready to go through the regular image pipeline.
+ */
+export const renderPdfPages = async (file: Blob, longEdge: number): Promise<Blob[]> => {
+  const pdfjs = await loadPdfJs();
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+
+  try {
+    const pages: Blob[] = [];
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const unscaled = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: longEdge / Math.max(unscaled.width, unscaled.height) });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(viewport.width);
+      canvas.height = Math.round(viewport.height);
+      await page.render({ canvas, viewport, background: 'white' }).promise;
+
+      pages.push(await new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(
+          (blob) => (blob ? resolve(blob) : reject(new Error('Failed to render PDF page'))),
+          'image/png'
+        );
+      }));
+      page.cleanup();
+    }
+
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+};
@@ -0,0 +1,72 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createVault,
+  loadVaultSettings,
+  removeSealedProfiles,
+  SEALED_PROFILES_STORAGE_KEY,
+  sealProfiles,
+  unsealProfiles
+} from '@/lib/profileVault';
+import { EMPTY_CREDENTIALS, PROFILES_STORAGE_KEY, ProfileStore } from '@/lib/connectionProfiles';
+import { CREDENTIALS_STORAGE_KEY } from '@/lib/firebase';
+
+const STORE: ProfileStore = {
+  profiles: [{ id: 'p1', name: 'Clínica', credentials: { ...EMPTY_CREDENTIALS, projectId: 'ecg-demo', apiKey: 'secret-key' } }],
+  activeProfileId: 'p1'
+};
+
+describe('profileVault', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('round-trips the profiles through the passphrase', async () => {
+    await sealProfiles(STORE, await createVault('correct horse'), { autoLockMinutes: 5 });
+
+    const { store, vault } = await unsealProfiles('correct horse');
+    expect(store).toEqual(STORE);
+    expect(vault.iterations).toBe(600000);
+    expect(loadVaultSettings()).toEqual({ autoLockMinutes: 5 });
+  });
+
+  it('stores nothing in the clear and replaces unencrypted copies', async () => {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(STORE));
+    localStorage.setItem(CREDENTIALS_STORAGE_KEY, JSON.stringify(STORE.profiles[0].credentials));
+
+    await sealProfiles(STORE, await createVault('correct horse'), { autoLockMinutes: 0 });
+
+    expect(localStorage.getItem(PROFILES_STORAGE_KEY)).toBeNull();
+    expect(localStorage.getItem(CREDENTIALS_STORAGE_KEY)).toBeNull();
+    expect(localStorage.getItem(SEALED_PROFILES_STORAGE_KEY)).not.toContain('secret-key');
+  });
+
+  it('uses a new IV on every write with the same key', async () => {
+    const vault = await createVault('correct horse');
+    await sealProfiles(STORE, vault, { autoLockMinutes: 0 });
+    const first = JSON.parse(localStorage.getItem(SEALED_PROFILES_STORAGE_KEY));
+    await sealProfiles(STORE, vault, { autoLockMinutes: 0 });
+    const second = JSON.parse(localStorage.getItem(SEALED_PROFILES_STORAGE_KEY));
+
+    expect(second.salt).toBe(first.salt);
+    expect(second.iv).not.toBe(first.iv);
+  });
+
+  it('rejects a wrong passphrase', async () => {
+    await sealProfiles(STORE, await createVault('correct horse'), { autoLockMinutes: 0 });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await expect(unsealProfiles('battery staple')).rejects.toThrow('Senha incorreta');
+  });
+
+  it('reports when there is nothing sealed', async () => {
+    expect(loadVaultSettings()).toBeNull();
+    await sealProfiles(STORE, await createVault('correct horse'), { autoLockMinutes: 0 });
+    removeSealedProfiles();
+    expect(loadVaultSettings()).toBeNull();
+    await expect(unsealProfiles('correct horse')).rejects.toThrow('Nenhuma credencial protegida encontrada');
+  });
+});
@@ -0,0 +1,149 @@
+import { CREDENTIALS_STORAGE_KEY } from '@/lib/firebase';
+import { PROFILES_STORAGE_KEY, ProfileStore } from '@/lib/connectionProfiles';
+
+export const SEALED_PROFILES_STORAGE_KEY = 'firestore_profiles_sealed';
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// OWASP's recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600000;
+
+const SALT_BYTES = 16;
+
+const IV_BYTES = 12;
+
+/** Minutes without interaction before the profiles are locked again; 0 never locks. */
+export const AUTO_LOCK_OPTIONS = [0, 5, 15, 30, 60];
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+/** Settings stored in the clear next to the sealed profiles, readable while locked. */
+export interface VaultSettings {
+  autoLockMinutes: number;
+}
+
+/** What is written to storage: the profile store encrypted with AES-GCM. */
+interface SealedProfiles extends VaultSettings {
+  version: 1;
+  iterations: number;
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+/** Key derived from the passphrase, kept in memory only while unlocked. */
+export interface ProfileVault {
+  key: CryptoKey;
+  salt: Uint8Array;
+  iterations: number;
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const getSubtle = () => {
+  // Only available on https and localhost
+  if (!globalThis.crypto?.subtle) {
+    throw new Error('Criptografia indisponível: acesse o app por https ou localhost');
+  }
+  return globalThis.crypto.subtle;
+};
+
+const readSealedProfiles = (): SealedProfiles | null => {
+  const saved = localStorage.getItem(SEALED_PROFILES_STORAGE_KEY);
+  if (!saved) return null;
+
+  try {
+    return JSON.parse(saved);
+  } catch (error) {
+    console.error('Error parsing sealed profiles:', error);
+    return null;
+  }
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const subtle = getSubtle();
+  const material = await subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  // Not extractable, so the key itself cannot be read back from memory by scripts
+  return subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/** Settings of the sealed profiles, or null when profiles are stored unencrypted. */
+export const loadVaultSettings = (): VaultSettings | null => {
+  const sealed = readSealedProfiles();
+  return sealed && { autoLockMinutes: sealed.autoLockMinutes };
+};
+
+/** Derives a key from a new passphrase, with a fresh salt. */
+export const createVault = async (passphrase: string): Promise<ProfileVault> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  return { key: await deriveKey(passphrase, salt, PBKDF2_ITERATIONS), salt, iterations: PBKDF2_ITERATIONS };
+};
+
+/**
+ * Encrypts and writes the profiles, replacing any unencrypted copy, including
+ * credentials saved before profiles existed. Every write uses a new IV.
+ */
+export const sealProfiles = async (store: ProfileStore, vault: ProfileVault, settings: VaultSettings) => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await getSubtle().encrypt(
+    { name: 'AES-GCM', iv },
+    vault.key,
+    new TextEncoder().encode(JSON.stringify(store))
+  );
+
+  const sealed: SealedProfiles = {
+    version: 1,
+    iterations: vault.iterations,
+    salt: toBase64(vault.salt),
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(data)),
+    autoLockMinutes: settings.autoLockMinutes
+  };
+  localStorage.setItem(SEALED_PROFILES_STORAGE_KEY, JSON.stringify(sealed));
+  localStorage.removeItem(PROFILES_STORAGE_KEY);
+  localStorage.removeItem(CREDENTIALS_STORAGE_KEY);
+};
+
+/**
+ * Decrypts the sealed profiles. AES-GCM authenticates the data, so a wrong
+ * passphrase fails here instead of producing garbage.
+ */
+export const unsealProfiles = async (passphrase: string): Promise<{ store: ProfileStore; vault: ProfileVault }> => {
+  const sealed = readSealedProfiles();
+  if (!sealed) {
+    throw new Error('Nenhuma credencial protegida encontrada');
+  }
+
+  const salt = fromBase64(sealed.salt);
+  const key = await deriveKey(passphrase, salt, sealed.iterations);
+  let data: ArrayBuffer;
+  try {
+    data = await getSubtle().decrypt({ name: 'AES-GCM', iv: fromBase64(sealed.iv) }, key, fromBase64(sealed.data));
+  } catch (error) {
+    console.error('Error decrypting profiles:', error);
+    throw new Error('Senha incorreta');
+  }
+
+  return {
+    store: JSON.parse(new TextDecoder().decode(data)),
+    vault: { key, salt, iterations: sealed.iterations }
+  };
+};
+
+export const removeSealedProfiles = () => {
+  localStorage.removeItem(SEALED_PROFILES_STORAGE_KEY);
+};
@@ -0,0 +1,229 @@
+import {
+  ImageField,
+  MedicalRecord,
+  MedicalRecordDocument,
+  PdfField,
+  pdfFieldOf,
+  PdfPageLink,
+  pdfPagesFieldOf,
+  RecordImage,
+  StoredFile
+} from '@/lib/firebase';
+import { EcgSignal, StoredSignal } from '@/lib/signal';
+import { PageCalipers } from '@/lib/calipers';
+import { hasMeasurements, toStoredMeasurements } from '@/lib/measurements';
+import { ValidatedRecord } from '@/lib/recordSchema';
+import { getImageUrl, getRecordImages, RecordFolder } from '@/lib/storage';
+
+// Page images and the original PDFs they were rendered from
+export const FILE_FIELDS: (ImageField | PdfField)[] = ['ecg', 'laudo', 'ecgPdf', 'laudoPdf'];
+
+const IMAGE_FIELDS: ImageField[] = ['ecg', 'laudo'];
+
+/** Opaque position after the last record of a page, handed back to read the next one. */
+export type RecordCursor = unknown;
+
+export interface RecordPage {
+  rows: ValidatedRecord[];
+  hasNextPage: boolean;
+  /** Position after the last row, or null when the page is empty */
+  cursor: RecordCursor | null;
+}
+
+export interface RecordFilter {
+  patientId: string;
+}
+
+/**
+ * Changes to a stored record, in form terms. File fields list the record's
+ * files in their new order: stored URLs are kept, data URLs are uploaded, and
+ * stored files left out are removed. `signal` replaces the waveform when present.
+ */
+export type RecordChanges = Partial<MedicalRecord> & {
+  ecgCalipers?: PageCalipers[];
+};
+
+/** Where a repository keeps the binaries referenced by its records. */
+export interface RecordFileStore {
+  upload: (recordId: string, folder: RecordFolder, dataUrl: string) => Promise<StoredFile>;
+  uploadSignal: (recordId: string, signal: EcgSignal) => Promise<StoredSignal>;
+  loadSignal: (signal: StoredSignal) => Promise<EcgSignal>;
+  remove: (file: RecordImage) => Promise<void>;
+}
+
+/**
+ * Storage of medical records and their files. Pages go through this interface
+ * only, so the same UI runs against Firestore or against in-memory data.
+ */
+export interface MedicalRecordRepository {
+  /** Stores a new record along with its files and returns its ID */
+  create: (record: MedicalRecord) => Promise<string>;
+  /** The record with the ID, validated, or null if there is none */
+  get: (id: string) => Promise<ValidatedRecord | null>;
+  /** A page of records, newest first */
+  list: (pageSize: number, after?: RecordCursor) => Promise<RecordPage>;
+  /** Applies the changes and returns the record as stored afterwards */
+  update: (id: string, changes: RecordChanges) => Promise<MedicalRecordDocument>;
+  /** Removes the record and, best effort, its files */
+  delete: (id: string) => Promise<void>;
+  /** Records matching the filter, in no particular order */
+  query: (filter: RecordFilter) => Promise<ValidatedRecord[]>;
+  loadSignal: (signal: StoredSignal) => Promise<EcgSignal>;
+}
+
+/** Fields of a new record document; each repository adds its own timestamps. */
+export type NewRecordDocument = Omit<MedicalRecordDocument, 'created_at' | 'updated_at'>;
+
+/**
+ * Rewrites page/PDF links from form URLs to the URLs of the stored files.
+ * Links to a page or PDF no longer in the record are dropped.
+ */
+const toStoredPdfPages = (links: PdfPageLink[] = [], storedUrls: Map<string, string>): PdfPageLink[] => {
+  return links.flatMap(({ page, pdf }) => {
+    return storedUrls.has(page) && storedUrls.has(pdf) ? [{ page: storedUrls.get(page), pdf: storedUrls.get(pdf) }] : [];
+  });
+};
+
+/**
+ * Waits for every upload, not just the first failure, so that when one fails
+ * the files the others stored can be removed before the error is rethrown.
+ */
+const settleUploads = async (files: RecordFileStore, uploads: Promise<StoredFile>[]) => {
+  const results = await Promise.allSettled(uploads);
+  const failed = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+  if (failed) {
+    await removeRecordFiles(files, results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : [])));
+    throw failed.reason;
+  }
+  return results.map(result => (result as PromiseFulfilledResult<StoredFile>).value);
+};
+
+export const buildRecordDocument = async (
+  files: RecordFileStore,
+  recordId: string,
+  record: MedicalRecord
+): Promise<NewRecordDocument> => {
+  const uploads = FILE_FIELDS.flatMap(field => record[field].map(dataUrl => ({ field, dataUrl })));
+  const stored = await settleUploads(files, [
+    ...uploads.map(({ field, dataUrl }) => files.upload(recordId, field, dataUrl)),
+    ...(record.signal ? [files.uploadSignal(recordId, record.signal)] : [])
+  ]);
+  const [ecg, laudo, ecgPdf, laudoPdf] = FILE_FIELDS.map(field => {
+    return uploads.flatMap((upload, index) => (upload.field === field ? [stored[index]] : []));
+  });
+  // The signal, if any, was uploaded last
+  const signal = record.signal ? (stored[uploads.length] as StoredSignal) : null;
+
+  const storedUrls = new Map<string, string>();
+  uploads.forEach(({ dataUrl }, index) => storedUrls.set(dataUrl, getImageUrl(stored[index])));
+
+  return {
+    patientId: record.patient?.id ?? null,
+    ecg,
+    laudo,
+    ecgPdf,
+    laudoPdf,
+    ecgPdfPages: toStoredPdfPages(record.ecgPdfPages, storedUrls),
+    laudoPdfPages: toStoredPdfPages(record.laudoPdfPages, storedUrls),
+    signal,
+    measurements: hasMeasurements(record.measurements) ? toStoredMeasurements(record.measurements) : null,
+    diagnoses: record.diagnoses,
+    descricao: record.descricao,
+    timestamp: new Date().toISOString()
+  };
+};
+
+export interface RecordUpdate {
+  updates: Partial<MedicalRecordDocument>;
+  /** Files the record no longer references, to remove once the update is written */
+  removed: RecordImage[];
+  /** Files stored for the update, to remove if it cannot be written */
+  uploaded: RecordImage[];
+}
+
+export const buildRecordUpdate = async (
+  files: RecordFileStore,
+  recordId: string,
+  stored: MedicalRecordDocument,
+  changes: RecordChanges
+): Promise<RecordUpdate> => {
+  const updates: Partial<MedicalRecordDocument> = {};
+  const removed: RecordImage[] = [];
+  const uploaded: RecordImage[] = [];
+  // Form URL of every file the record keeps, mapped to its stored URL
+  const storedUrls = new Map<string, string>();
+
+  if ('patient' in changes) updates.patientId = changes.patient?.id ?? null;
+  if (changes.measurements) {
+    updates.measurements = hasMeasurements(changes.measurements) ? toStoredMeasurements(changes.measurements) : null;
+  }
+  if (changes.diagnoses) updates.diagnoses = changes.diagnoses;
+  if (changes.descricao !== undefined) updates.descricao = changes.descricao;
+  if (changes.ecgCalipers) updates.ecgCalipers = changes.ecgCalipers;
+
+  // Files uploaded before a failure would otherwise be left behind
+  try {
+    for (const field of FILE_FIELDS) {
+      if (!changes[field]) {
+        getRecordImages(stored[field]).map(getImageUrl).forEach(url => storedUrls.set(url, url));
+        continue;
+      }
+
+      const existing = getRecordImages(stored[field]);
+      const kept: RecordImage[] = [];
+      for (const url of changes[field]) {
+        // Files kept from the stored record keep pointing at their existing object
+        const file = existing.find(item => getImageUrl(item) === url);
+        if (file) {
+          kept.push(file);
+        } else {
+          const stored = await files.upload(recordId, field, url);
+          uploaded.push(stored);
+          kept.push(stored);
+        }
+        storedUrls.set(url, getImageUrl(kept[kept.length - 1]));
+      }
+
+      // Only legacy page images can be inline strings; PDFs are always stored
+      (updates as Record<string, RecordImage[]>)[field] = kept;
+      removed.push(...existing.filter(file => !kept.includes(file)));
+    }
+
+    // Links follow the pages and PDFs they point at
+    for (const field of IMAGE_FIELDS) {
+      const linksField = pdfPagesFieldOf(field);
+      if (!changes[linksField] && !updates[field] && !updates[pdfFieldOf(field)]) continue;
+      updates[linksField] = toStoredPdfPages(changes[linksField] ?? stored[linksField], storedUrls);
+    }
+
+    // Calipers belong to a page and go away with it
+    const calipers = updates.ecgCalipers ?? stored.ecgCalipers;
+    if (updates.ecg && calipers) {
+      const pages = (updates.ecg as RecordImage[]).map(getImageUrl);
+      updates.ecgCalipers = calipers.filter(item => pages.includes(item.image));
+    }
+
+    if ('signal' in changes) {
+      updates.signal = changes.signal ? await files.uploadSignal(recordId, changes.signal) : null;
+      if (updates.signal) uploaded.push(updates.signal);
+      if (stored.signal) removed.push(stored.signal);
+    }
+  } catch (error) {
+    await removeRecordFiles(files, uploaded);
+    throw error;
+  }
+
+  return { updates, removed, uploaded };
+};
+
+export const getRecordFiles = (stored: MedicalRecordDocument): RecordImage[] => {
+  const files = FILE_FIELDS.flatMap(field => getRecordImages(stored[field]));
+  return stored.signal ? [...files, stored.signal] : files;
+};
+
+/** Removes files of a record already written; leftovers are only logged. */
+export const removeRecordFiles = (files: RecordFileStore, removed: RecordImage[]) => {
+  return Promise.all(removed.map(file => files.remove(file).catch(error => {
+    console.error('Error deleting record file:', error);
+  })));
+};
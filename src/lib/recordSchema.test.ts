@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { MedicalRecord } from '@/lib/firebase';
+import { EMPTY_MEASUREMENTS } from '@/lib/measurements';
+import {
+  getDataUrlBytes,
+  legacyMedicalRecordSchema,
+  MAX_IMAGE_BYTES,
+  parseRecordDocument,
+  validateRecord
+} from '@/lib/recordSchema';
+
+const STORED_ECG = {
+  path: 'record-1/ecg/page-1.png',
+  contentType: 'image/png',
+  size: 2048,
+  url: 'https://storage.example.com/record-1/ecg/page-1.png'
+};
+
+const DOCUMENT = {
+  patientId: 'patient-1',
+  ecg: [STORED_ECG],
+  laudo: ['data:image/png;base64,iVBORw0KGgo='],
+  ecgPdfPages: [],
+  signal: null,
+  measurements: { ...EMPTY_MEASUREMENTS, heartRate: 75, qtcBazett: null, qtcFridericia: null, qtcFramingham: null, qtcHodges: null },
+  diagnoses: [{ code: 'normal-ecg', snomedCt: null, certainty: 'definite' }],
+  descricao: 'Ritmo sinusal normal',
+  created_at: Timestamp.fromMillis(0)
+};
+
+// A base64 payload decoding to exactly the given number of bytes
+const dataUrlOfBytes = (bytes: number) => {
+  const padding = ['', 'AA==', 'AAA='][bytes % 3];
+  return `data:image/png;base64,${'A'.repeat(Math.floor(bytes / 3) * 4)}${padding}`;
+};
+
+describe('parseRecordDocument', () => {
+  it('accepts a valid document', () => {
+    expect(parseRecordDocument(DOCUMENT)).toEqual({ success: true, record: DOCUMENT });
+  });
+
+  it('accepts older documents with a single inline image and no later fields', () => {
+    const legacy = { ecg: 'data:image/png;base64,iVBORw0KGgo=', laudo: STORED_ECG, descricao: 'Laudo antigo', timestamp: '2020-01-01' };
+    expect(parseRecordDocument(legacy)).toEqual({ success: true, record: legacy });
+  });
+
+  it('describes missing and wrongly typed fields', () => {
+    expect(parseRecordDocument({ ...DOCUMENT, descricao: undefined })).toEqual({ success: false, issues: ['descricao: Required'] });
+    expect(parseRecordDocument({ ...DOCUMENT, ecg: [{ ...STORED_ECG, size: '2 KB' }] })).toEqual({
+      success: false,
+      issues: ['ecg: Invalid input']
+    });
+    expect(parseRecordDocument({ ...DOCUMENT, measurements: { ...DOCUMENT.measurements, heartRate: '75' } })).toEqual({
+      success: false,
+      issues: ['measurements.heartRate: Expected number, received string']
+    });
+    expect(parseRecordDocument(undefined)).toEqual({ success: false, issues: ['documento: Required'] });
+  });
+
+  it('reports the document without a record when it fails', () => {
+    expect(validateRecord('record-1', { ...DOCUMENT, descricao: 42 })).toEqual({
+      id: 'record-1',
+      record: null,
+      issues: ['descricao: Expected string, received number']
+    });
+  });
+});
+
+describe('getDataUrlBytes', () => {
+  it('counts the decoded bytes, minus the padding', () => {
+    expect(getDataUrlBytes(`data:image/png;base64,${btoa('abc')}`)).toBe(3);
+    expect(getDataUrlBytes(`data:image/png;base64,${btoa('abcd')}`)).toBe(4);
+    expect(getDataUrlBytes(`data:image/png;base64,${btoa('abcde')}`)).toBe(5);
+    expect(getDataUrlBytes('data:image/png;base64,')).toBe(0);
+  });
+});
+
+describe('legacyMedicalRecordSchema', () => {
+  const record: MedicalRecord = {
+    patient: null,
+    ecg: [STORED_ECG.url],
+    laudo: [dataUrlOfBytes(MAX_IMAGE_BYTES)],
+    ecgPdf: [],
+    laudoPdf: [],
+    ecgPdfPages: [],
+    laudoPdfPages: [],
+    signal: null,
+    measurements: EMPTY_MEASUREMENTS,
+    diagnoses: [],
+    descricao: 'Ritmo sinusal normal'
+  };
+
+  it('accepts images up to the size limit and stored URLs of any size', () => {
+    expect(legacyMedicalRecordSchema.safeParse(record).success).toBe(true);
+  });
+
+  it('rejects new images over the size limit or of another type', () => {
+    const result = legacyMedicalRecordSchema.safeParse({
+      ...record,
+      ecg: [STORED_ECG.url, dataUrlOfBytes(MAX_IMAGE_BYTES + 3)],
+      laudo: ['data:image/gif;base64,R0lGODlh']
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.success === false && result.error.issues.map(({ path, message }) => ({ path, message }))).toEqual([
+      { path: ['ecg'], message: 'Imagem (2) excede o limite de 5.0 MB' },
+      { path: ['laudo'], message: 'Tipo de imagem não aceito: image/gif' }
+    ]);
+  });
+});
@@ -0,0 +1,213 @@
+import { z } from 'zod';
+import { DocumentSnapshot, Timestamp } from 'firebase/firestore';
+import { MedicalRecordDocument, PdfPageLink, StoredFile } from '@/lib/firebase';
+import { EcgSignal, StoredSignal } from '@/lib/signal';
+import { CaliperMeasurement, ImageCalibration, ImagePoint, PageCalipers } from '@/lib/calipers';
+import { DiagnosisCode } from '@/lib/ecgStatements';
+import { StoredMeasurements } from '@/lib/measurements';
+import { PatientRow } from '@/lib/patients';
+import { COMPRESSED_CONTENT_TYPES, formatBytes } from '@/lib/imageCompression';
+import { PDF_CONTENT_TYPE } from '@/lib/pdf';
+
+export const MIN_DESCRIPTION_LENGTH = 10;
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+export const MAX_PDF_BYTES = 20 * 1024 * 1024;
+// Whatever the upload's compression produces
+export const IMAGE_CONTENT_TYPES = COMPRESSED_CONTENT_TYPES;
+
+const DATA_URL_PATTERN = /^data:([^;,]+)(;base64)?,/;
+
+// Size of the decoded payload, without decoding it
+export const getDataUrlBytes = (dataUrl: string) => {
+  const payload = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const padding = payload.endsWith('==') ? 2 : payload.endsWith('=') ? 1 : 0;
+  return Math.floor((payload.length * 3) / 4) - padding;
+};
+
+/**
+ * Ordered files of a record field. Freshly selected files are data URLs and
+ * must have an accepted type and size; URLs of files already stored pass as is.
+ * Problems are reported on the field itself so the form can show them inline.
+ */
+const fileListSchema = (contentTypes: string[], maxBytes: number, noun: string) => {
+  return z.array(z.string()).superRefine((files, ctx) => {
+    files.forEach((file, index) => {
+      const match = file.match(DATA_URL_PATTERN);
+      if (!match) return;
+
+      const position = files.length > 1 ? ` (${index + 1})` : '';
+      if (!contentTypes.includes(match[1])) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Tipo de ${noun}${position} não aceito: ${match[1]}` });
+      } else if (getDataUrlBytes(file) > maxBytes) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `${noun[0].toUpperCase()}${noun.slice(1)}${position} excede o limite de ${formatBytes(maxBytes)}`
+        });
+      }
+    });
+  });
+};
+
+const pagesSchema = (label: string) => {
+  return fileListSchema(IMAGE_CONTENT_TYPES, MAX_IMAGE_BYTES, 'imagem')
+    .refine(pages => pages.length > 0, `Adicione ao menos uma página de ${label}`);
+};
+
+const measurementValue = (min: number, max: number) => {
+  return z.number().min(min, `Mínimo ${min}`).max(max, `Máximo ${max}`).nullable();
+};
+
+const measurementsSchema = z.object({
+  heartRate: measurementValue(10, 350),
+  prInterval: measurementValue(0, 1000),
+  qrsDuration: measurementValue(0, 500),
+  qtInterval: measurementValue(0, 1000),
+  pAxis: measurementValue(-180, 360),
+  qrsAxis: measurementValue(-180, 360),
+  tAxis: measurementValue(-180, 360)
+});
+
+const diagnosisSchema = z.object({
+  code: z.string(),
+  snomedCt: z.string().nullable(),
+  certainty: z.enum(['definite', 'probable', 'possible'])
+});
+
+const pdfPageLinkSchema = z.object({ page: z.string(), pdf: z.string() });
+
+/** Form state of a record, shared by the new record form and the edit form. */
+export const medicalRecordSchema = z.object({
+  patient: z.custom<PatientRow | null>().refine(patient => patient !== null, 'Busque ou cadastre o paciente do exame'),
+  ecg: pagesSchema('ECG'),
+  laudo: pagesSchema('laudo'),
+  ecgPdf: fileListSchema([PDF_CONTENT_TYPE], MAX_PDF_BYTES, 'PDF'),
+  laudoPdf: fileListSchema([PDF_CONTENT_TYPE], MAX_PDF_BYTES, 'PDF'),
+  ecgPdfPages: z.array(pdfPageLinkSchema),
+  laudoPdfPages: z.array(pdfPageLinkSchema),
+  signal: z.custom<EcgSignal | null>(),
+  measurements: measurementsSchema,
+  diagnoses: z.array(diagnosisSchema),
+  descricao: z.string()
+    .trim()
+    .min(MIN_DESCRIPTION_LENGTH, `A descrição deve ter ao menos ${MIN_DESCRIPTION_LENGTH} caracteres`)
+});
+
+/**
+ * Edit form of a record saved before records were linked to patients, which
+ * stays editable without assigning one.
+ */
+export const legacyMedicalRecordSchema = medicalRecordSchema.extend({
+  patient: z.custom<PatientRow | null>()
+});
+
+/** Schema of every key of `T`, each producing the type of that key. */
+type ObjectShape<T> = { [K in keyof Required<T>]: z.ZodType<T[K], z.ZodTypeDef, unknown> };
+
+/**
+ * Object schema checked key by key against an interface. Without
+ * strictNullChecks Zod infers every key of an object as optional, so the
+ * object as a whole can never match an interface with required keys.
+ */
+const typedObject = <T>(shape: ObjectShape<T>) => z.object(shape) as unknown as z.ZodType<T>;
+
+const storedFileShape: ObjectShape<StoredFile> = {
+  path: z.string(),
+  contentType: z.string(),
+  size: z.number(),
+  url: z.string()
+};
+
+const storedFileSchema = typedObject<StoredFile>(storedFileShape);
+
+const recordImageSchema = z.union([storedFileSchema, z.string()]);
+
+const storedPdfPageLinkSchema = typedObject<PdfPageLink>({ page: z.string(), pdf: z.string() });
+
+const pointSchema = typedObject<ImagePoint>({ x: z.number(), y: z.number() });
+
+const nullableNumber = z.number().nullable();
+
+/**
+ * Shape of a record document as read back from Firestore. Older documents
+ * lack the fields added over time, which are therefore optional.
+ */
+export const medicalRecordDocumentSchema = typedObject<MedicalRecordDocument>({
+  patientId: z.string().nullish(),
+  ecg: z.union([z.array(recordImageSchema), recordImageSchema]),
+  laudo: z.union([z.array(recordImageSchema), recordImageSchema]),
+  ecgPdf: z.array(storedFileSchema).optional(),
+  laudoPdf: z.array(storedFileSchema).optional(),
+  ecgPdfPages: z.array(storedPdfPageLinkSchema).optional(),
+  laudoPdfPages: z.array(storedPdfPageLinkSchema).optional(),
+  signal: typedObject<StoredSignal>({
+    ...storedFileShape,
+    format: z.enum(['hl7-aecg', 'scp-ecg', 'wfdb']),
+    samplingRate: z.number(),
+    units: z.literal('uV'),
+    leads: z.array(z.string()),
+    sampleCount: z.number(),
+    metadata: z.object({
+      acquiredAt: z.string().optional(),
+      device: z.string().optional(),
+      patientId: z.string().optional(),
+      sourceFile: z.string().optional()
+    })
+  }).nullish(),
+  ecgCalipers: z.array(typedObject<PageCalipers>({
+    image: z.string(),
+    calibration: typedObject<ImageCalibration>({
+      method: z.enum(['grid', 'pulse']),
+      pxPerMmX: z.number(),
+      pxPerMmY: z.number(),
+      paperSpeed: z.number(),
+      gain: z.number()
+    }).nullable(),
+    measurements: z.array(typedObject<CaliperMeasurement>({ id: z.string(), start: pointSchema, end: pointSchema }))
+  })).optional(),
+  measurements: typedObject<StoredMeasurements>({
+    ...measurementsSchema.shape,
+    qtcBazett: nullableNumber,
+    qtcFridericia: nullableNumber,
+    qtcFramingham: nullableNumber,
+    qtcHodges: nullableNumber
+  }).nullish(),
+  diagnoses: z.array(typedObject<DiagnosisCode>(diagnosisSchema.shape)).optional(),
+  descricao: z.string(),
+  timestamp: z.string().optional(),
+  created_at: z.instanceof(Timestamp).optional(),
+  updated_at: z.instanceof(Timestamp).optional()
+});
+
+export type RecordDocumentResult =
+  | { success: true; record: MedicalRecordDocument }
+  | { success: false; issues: string[] };
+
+/** A listed record; `record` is null when the document failed validation. */
+export interface ValidatedRecord {
+  id: string;
+  record: MedicalRecordDocument | null;
+  issues: string[];
+}
+
+/** Validates a document read from Firestore, describing each problem found. */
+export const parseRecordDocument = (data: unknown): RecordDocumentResult => {
+  const result = medicalRecordDocumentSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, record: result.data };
+  }
+  return {
+    success: false,
+    issues: result.error.issues.map(issue => `${issue.path.join('.') || 'documento'}: ${issue.message}`)
+  };
+};
+
+export const validateRecord = (id: string, data: unknown): ValidatedRecord => {
+  const parsed = parseRecordDocument(data);
+  return parsed.success === true
+    ? { id, record: parsed.record, issues: [] }
+    : { id, record: null, issues: parsed.issues };
+};
+
+export const validateRecordSnapshot = (snapshot: DocumentSnapshot): ValidatedRecord => {
+  return validateRecord(snapshot.id, snapshot.data());
+};
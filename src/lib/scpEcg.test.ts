@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { parseScpEcg } from '@/lib/scpEcg';
+
+const le16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+const le32 = (value: number) => [...le16(value & 0xffff), ...le16(value >>> 16)];
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+const bitsToBytes = (bits: string) => {
+  const padded = bits.padEnd(Math.ceil(bits.length / 8) * 8, '0');
+  return padded.match(/.{8}/g).map(byte => parseInt(byte, 2));
+};
+
+const section = (id: number, content: number[]) => [...le16(0), ...le16(id), ...le32(16 + content.length), ...Array(8).fill(0), ...content];
+
+// Record CRC and size, section 0 pointing at every section, then the sections in order
+const buildRecord = (sections: Record<number, number[]>) => {
+  const ids = Object.keys(sections).map(Number);
+  const encoded = ids.map(id => section(id, sections[id]));
+  let index = 6 + 16 + ids.length * 10 + 1;
+  const pointers = ids.flatMap((id, i) => {
+    const pointer = [...le16(id), ...le32(encoded[i].length), ...le32(index)];
+    index += encoded[i].length;
+    return pointer;
+  });
+  return new Uint8Array([...Array(6).fill(0), ...section(0, pointers), ...encoded.flat()]).buffer;
+};
+
+const leadDefinitions = (flags: number, leads: { id: number; sampleCount: number }[]) => [
+  leads.length,
+  flags,
+  ...leads.flatMap(({ id, sampleCount }) => [...le32(1), ...le32(sampleCount), id])
+];
+
+const rhythm = (amplitude: number, interval: number, differenceOrder: number, leads: number[][]) => [
+  ...le16(amplitude),
+  ...le16(interval),
+  differenceOrder,
+  0,
+  ...leads.flatMap(lead => le16(lead.length)),
+  ...leads.flat()
+];
+
+describe('parseScpEcg', () => {
+  it('reads uncompressed rhythm data scaled to microvolts', () => {
+    const signal = parseScpEcg(buildRecord({
+      3: leadDefinitions(0, [{ id: 1, sampleCount: 3 }, { id: 2, sampleCount: 3 }]),
+      6: rhythm(5000, 2000, 0, [[...le16(1), ...le16(-2 & 0xffff), ...le16(3)], [...le16(0), ...le16(10), ...le16(20)]])
+    }));
+
+    expect(signal.format).toBe('scp-ecg');
+    expect(signal.samplingRate).toBe(500);
+    expect(signal.leads).toEqual([
+      { name: 'I', samples: [5, -10, 15] },
+      { name: 'II', samples: [0, 50, 100] }
+    ]);
+  });
+
+  it('decodes default-table Huffman data and undoes first differences', () => {
+    // 0, +1, -1, then 100 escaped as a raw 8-bit value
+    const bits = bitsToBytes('0' + '100' + '101' + '1111111110' + '01100100');
+    const signal = parseScpEcg(buildRecord({
+      2: le16(19999),
+      3: leadDefinitions(0, [{ id: 64, sampleCount: 4 }]),
+      6: rhythm(1000, 1000, 1, [bits])
+    }));
+
+    expect(signal.samplingRate).toBe(1000);
+    expect(signal.leads).toEqual([{ name: 'aVF', samples: [0, 1, 0, 100] }]);
+  });
+
+  it('reads the patient and acquisition time', () => {
+    const signal = parseScpEcg(buildRecord({
+      1: [
+        2, ...le16(5), ...ascii('12345'),
+        25, ...le16(4), ...le16(2024), 1, 31,
+        26, ...le16(3), 14, 25, 30,
+        255, ...le16(0)
+      ],
+      3: leadDefinitions(0, [{ id: 1, sampleCount: 1 }]),
+      6: rhythm(1000, 2000, 0, [le16(7)])
+    }));
+
+    expect(signal.metadata).toEqual({
+      patientId: '12345',
+      acquiredAt: '2024-01-31T14:25:30'
+    });
+  });
+
+  it('reads the device model that follows the tag 14 IDs', () => {
+    // Institution, department and device IDs, device type and manufacturer code, then the model
+    const acquiringDevice = [...le16(12), ...le16(3), ...le16(7), 0, 17, ...ascii('MAC800'), 0, 0];
+    const signal = parseScpEcg(buildRecord({
+      1: [14, ...le16(acquiringDevice.length), ...acquiringDevice, 255, ...le16(0)],
+      3: leadDefinitions(0, [{ id: 1, sampleCount: 1 }]),
+      6: rhythm(1000, 2000, 0, [le16(7)])
+    }));
+
+    expect(signal.metadata.device).toBe('MAC800');
+  });
+
+  it('rejects files that are not SCP-ECG', () => {
+    expect(() => parseScpEcg(new Uint8Array(8).buffer)).toThrow('Arquivo não é um SCP-ECG válido');
+  });
+
+  it('rejects custom Huffman tables and reference beat subtraction', () => {
+    const lead = leadDefinitions(0, [{ id: 1, sampleCount: 1 }]);
+    expect(() => parseScpEcg(buildRecord({ 2: le16(1), 3: lead, 6: rhythm(1000, 2000, 0, [le16(0)]) })))
+      .toThrow('tabelas Huffman personalizadas');
+    expect(() => parseScpEcg(buildRecord({
+      3: leadDefinitions(1, [{ id: 1, sampleCount: 1 }]),
+      6: rhythm(1000, 2000, 0, [le16(0)])
+    }))).toThrow('subtração de batimento de referência');
+  });
+});
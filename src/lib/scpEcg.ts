@@ -0,0 +1,250 @@
+import { EcgLead, EcgSignal, EcgSignalMetadata } from '@/lib/signal';
+
+const SECTION_HEADER_SIZE = 16;
+const DEFAULT_HUFFMAN_TABLE_ID = 19999;
+
+// Lead identifiers from the SCP-ECG lead table (EN 1064, section 3)
+const LEAD_NAMES: Record<number, string> = {
+  1: 'I', 2: 'II', 3: 'V1', 4: 'V2', 5: 'V3', 6: 'V4', 7: 'V5', 8: 'V6', 9: 'V7',
+  10: 'V2R', 11: 'V3R', 12: 'V4R', 13: 'V5R', 14: 'V6R', 15: 'V7R',
+  16: 'X', 17: 'Y', 18: 'Z',
+  61: 'III', 62: 'aVR', 63: 'aVL', 64: 'aVF', 65: '-aVR',
+  66: 'V8', 67: 'V9', 68: 'V8R', 69: 'V9R'
+};
+
+interface HuffmanCode {
+  bits: number;
+  code: number;
+  /** Width of the raw value following the prefix, 0 for table values */
+  rawBits: number;
+  value: number;
+}
+
+// Default table from EN 1064 annex: small differences get short prefixes,
+// anything else is escaped as a raw 8 or 16 bit two's complement value
+const DEFAULT_HUFFMAN_TABLE: HuffmanCode[] = [
+  { bits: 1, code: 0b0, rawBits: 0, value: 0 },
+  ...[1, 2, 3, 4, 5, 6, 7, 8].flatMap(magnitude => {
+    // `magnitude` ones, a zero, then the sign bit
+    const bits = magnitude + 2;
+    const prefix = ((1 << magnitude) - 1) << 2;
+    return [
+      { bits, code: prefix, rawBits: 0, value: magnitude },
+      { bits, code: prefix | 1, rawBits: 0, value: -magnitude }
+    ];
+  }),
+  { bits: 10, code: 0b1111111110, rawBits: 8, value: 0 },
+  { bits: 10, code: 0b1111111111, rawBits: 16, value: 0 }
+];
+
+interface Section {
+  offset: number;
+  length: number;
+}
+
+class BitReader {
+  private position = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  get exhausted() {
+    return this.position >= this.bytes.length * 8;
+  }
+
+  read(count: number) {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      const byte = this.bytes[this.position >> 3] ?? 0;
+      value = (value << 1) | ((byte >> (7 - (this.position & 7))) & 1);
+      this.position++;
+    }
+    return value;
+  }
+}
+
+const readSigned = (value: number, bits: number) => {
+  return value & (1 << (bits - 1)) ? value - (1 << bits) : value;
+};
+
+const readSections = (view: DataView): Map<number, Section> => {
+  // Section 0 starts right after the record CRC and size
+  const pointerOffset = 6;
+  if (view.byteLength < pointerOffset + SECTION_HEADER_SIZE || view.getUint16(pointerOffset + 2, true) !== 0) {
+    throw new Error('Arquivo não é um SCP-ECG válido');
+  }
+
+  const sections = new Map<number, Section>();
+  const pointerLength = view.getUint32(pointerOffset + 4, true);
+  for (let entry = pointerOffset + SECTION_HEADER_SIZE; entry + 10 <= pointerOffset + pointerLength; entry += 10) {
+    const id = view.getUint16(entry, true);
+    const length = view.getUint32(entry + 2, true);
+    const index = view.getUint32(entry + 6, true);
+    // Indexes are 1-based positions in the whole record
+    if (length > 0 && index > 0) {
+      sections.set(id, { offset: index - 1, length });
+    }
+  }
+  return sections;
+};
+
+const readAscii = (view: DataView, offset: number, length: number) => {
+  const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, length);
+  return new TextDecoder('latin1').decode(bytes).replace(/\0.*$/, '').trim();
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const readMetadata = (view: DataView, section: Section | undefined): EcgSignalMetadata => {
+  const metadata: EcgSignalMetadata = {};
+  if (!section) return metadata;
+
+  let date: string | undefined;
+  let time = '00:00:00';
+  const end = section.offset + section.length;
+
+  for (let offset = section.offset + SECTION_HEADER_SIZE; offset + 3 <= end;) {
+    const tag = view.getUint8(offset);
+    const length = view.getUint16(offset + 1, true);
+    const value = offset + 3;
+    if (tag === 255) break;
+
+    if (tag === 2 && length > 0) {
+      metadata.patientId = readAscii(view, value, length);
+    } else if (tag === 25 && length >= 4) {
+      date = `${view.getUint16(value, true)}-${pad(view.getUint8(value + 2))}-${pad(view.getUint8(value + 3))}`;
+    } else if (tag === 26 && length >= 3) {
+      time = `${pad(view.getUint8(value))}:${pad(view.getUint8(value + 1))}:${pad(view.getUint8(value + 2))}`;
+    } else if (tag === 14 && length >= 14) {
+      // Acquiring device: the 6-byte model description follows the institution,
+      // department and device IDs, the device type and the manufacturer code
+      const device = readAscii(view, value + 8, 6);
+      if (device) metadata.device = device;
+    }
+
+    offset = value + length;
+  }
+
+  if (date) metadata.acquiredAt = `${date}T${time}`;
+  return metadata;
+};
+
+const readLeadDefinitions = (view: DataView, section: Section | undefined) => {
+  if (!section) {
+    throw new Error('O SCP-ECG não contém a definição das derivações (seção 3)');
+  }
+
+  const base = section.offset + SECTION_HEADER_SIZE;
+  const count = view.getUint8(base);
+  const leads: { name: string; sampleCount: number }[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const entry = base + 2 + i * 9;
+    const start = view.getUint32(entry, true);
+    const end = view.getUint32(entry + 4, true);
+    const id = view.getUint8(entry + 8);
+    leads.push({ name: LEAD_NAMES[id] ?? `Derivação ${id}`, sampleCount: end - start + 1 });
+  }
+  return leads;
+};
+
+const decodeHuffman = (bytes: Uint8Array, sampleCount: number) => {
+  const reader = new BitReader(bytes);
+  const values: number[] = [];
+
+  while (values.length < sampleCount && !reader.exhausted) {
+    let code = 0;
+    let bits = 0;
+    let match: HuffmanCode | undefined;
+
+    while (!match && bits < 10) {
+      code = (code << 1) | reader.read(1);
+      bits++;
+      match = DEFAULT_HUFFMAN_TABLE.find(entry => entry.bits === bits && entry.code === code);
+    }
+    if (!match) {
+      throw new Error('Dados Huffman inválidos no SCP-ECG');
+    }
+
+    values.push(match.rawBits ? readSigned(reader.read(match.rawBits), match.rawBits) : match.value);
+  }
+  return values;
+};
+
+const decodeRaw = (view: DataView, offset: number, length: number) => {
+  const values: number[] = [];
+  for (let i = 0; i + 1 < length; i += 2) {
+    values.push(view.getInt16(offset + i, true));
+  }
+  return values;
+};
+
+const undoDifferences = (values: number[], order: number) => {
+  const samples = [...values];
+  for (let n = order; n < samples.length; n++) {
+    samples[n] = order === 1
+      ? samples[n] + samples[n - 1]
+      : samples[n] + 2 * samples[n - 1] - samples[n - 2];
+  }
+  return samples;
+};
+
+/**
+ * Parses an SCP-ECG (EN 1064) file. Rhythm data must be stored without
+ * reference beat subtraction, either uncompressed or Huffman encoded with the
+ * default table; other encodings are rejected with an explanatory error.
+ */
+export const parseScpEcg = (buffer: ArrayBuffer): EcgSignal => {
+  const view = new DataView(buffer);
+  const sections = readSections(view);
+
+  const huffman = sections.get(2);
+  if (huffman && view.getUint16(huffman.offset + SECTION_HEADER_SIZE, true) !== DEFAULT_HUFFMAN_TABLE_ID) {
+    throw new Error('SCP-ECG com tabelas Huffman personalizadas não é suportado');
+  }
+
+  const leadDefinitions = readLeadDefinitions(view, sections.get(3));
+  const leadFlags = view.getUint8(sections.get(3).offset + SECTION_HEADER_SIZE + 1);
+  if (leadFlags & 1) {
+    throw new Error('SCP-ECG com subtração de batimento de referência não é suportado');
+  }
+
+  const rhythm = sections.get(6);
+  if (!rhythm) {
+    throw new Error('O SCP-ECG não contém dados de ritmo (seção 6)');
+  }
+
+  const base = rhythm.offset + SECTION_HEADER_SIZE;
+  const amplitudeNanovolts = view.getUint16(base, true);
+  const intervalMicroseconds = view.getUint16(base + 2, true);
+  const differenceOrder = view.getUint8(base + 4);
+  const bimodal = view.getUint8(base + 5);
+  if (bimodal) {
+    throw new Error('SCP-ECG com compressão bimodal não é suportado');
+  }
+  if (!intervalMicroseconds) {
+    throw new Error('O SCP-ECG não informa o intervalo de amostragem');
+  }
+
+  let dataOffset = base + 6 + leadDefinitions.length * 2;
+  const leads: EcgLead[] = leadDefinitions.map((definition, index) => {
+    const length = view.getUint16(base + 6 + index * 2, true);
+    const encoded = huffman
+      ? decodeHuffman(new Uint8Array(buffer, dataOffset, length), definition.sampleCount)
+      : decodeRaw(view, dataOffset, length);
+    dataOffset += length;
+
+    const samples = differenceOrder ? undoDifferences(encoded, differenceOrder) : encoded;
+    return {
+      name: definition.name,
+      samples: samples.map(sample => (sample * amplitudeNanovolts) / 1000)
+    };
+  });
+
+  return {
+    format: 'scp-ecg',
+    samplingRate: 1000000 / intervalMicroseconds,
+    units: 'uV',
+    leads,
+    metadata: readMetadata(view, sections.get(1))
+  };
+};
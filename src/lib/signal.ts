@@ -0,0 +1,120 @@
+import { StoredFile } from '@/lib/firebase';
+
+export type EcgSignalFormat = 'hl7-aecg' | 'scp-ecg' | 'wfdb';
+
+export interface EcgLead {
+  /** Conventional lead name, e.g. `I`, `aVR`, `V1` */
+  name: string;
+  /** Samples in microvolts */
+  samples: number[];
+}
+
+export interface EcgSignalMetadata {
+  /** ISO timestamp of the acquisition */
+  acquiredAt?: string;
+  device?: string;
+  patientId?: string;
+  sourceFile?: string;
+}
+
+/** A digital ECG waveform. Every lead has the same sampling rate. */
+export interface EcgSignal {
+  format: EcgSignalFormat;
+  /** Samples per second */
+  samplingRate: number;
+  /** Unit of the lead samples; importers normalize to microvolts */
+  units: 'uV';
+  leads: EcgLead[];
+  metadata: EcgSignalMetadata;
+}
+
+/** Summary kept on the record document; the samples live in a Storage object. */
+export interface StoredSignal extends StoredFile {
+  format: EcgSignalFormat;
+  samplingRate: number;
+  units: 'uV';
+  leads: string[];
+  sampleCount: number;
+  metadata: EcgSignalMetadata;
+}
+
+export const SIGNAL_CONTENT_TYPE = 'application/json';
+
+export const SIGNAL_FORMAT_LABELS: Record<EcgSignalFormat, string> = {
+  'hl7-aecg': 'HL7 aECG',
+  'scp-ecg': 'SCP-ECG',
+  wfdb: 'WFDB'
+};
+
+export const getSampleCount = (signal: EcgSignal) => {
+  return Math.max(0, ...signal.leads.map(lead => lead.samples.length));
+};
+
+/** Duration in seconds */
+export const getSignalDuration = (signal: EcgSignal) => {
+  return getSampleCount(signal) / signal.samplingRate;
+};
+
+export const serializeSignal = (signal: EcgSignal): Blob => {
+  return new Blob([JSON.stringify(signal)], { type: SIGNAL_CONTENT_TYPE });
+};
+
+export const parseSerializedSignal = (json: string): EcgSignal => {
+  const signal = JSON.parse(json) as EcgSignal;
+  if (!signal || !Array.isArray(signal.leads) || !(signal.samplingRate > 0)) {
+    throw new Error('Sinal armazenado em formato inválido');
+  }
+  return signal;
+};
+
+export const summarizeSignal = (signal: EcgSignal, file: StoredFile): StoredSignal => {
+  return {
+    ...file,
+    format: signal.format,
+    samplingRate: signal.samplingRate,
+    units: signal.units,
+    leads: signal.leads.map(lead => lead.name),
+    sampleCount: getSampleCount(signal),
+    // Firestore rejects undefined values, so unknown metadata is dropped
+    metadata: JSON.parse(JSON.stringify(signal.metadata ?? {}))
+  };
+};
+
+/** Maps vendor lead codes such as `MDC_ECG_LEAD_AVR` or `v1` to conventional names. */
+export const normalizeLeadName = (raw: string) => {
+  const name = raw.replace(/^MDC_ECG_LEAD_/i, '').trim();
+  const upper = name.toUpperCase();
+
+  if (['AVR', 'AVL', 'AVF'].includes(upper)) {
+    return `a${upper.slice(1)}`;
+  }
+  if (/^(I|II|III|V\d+R?)$/.test(upper)) {
+    return upper;
+  }
+  return name;
+};
+
+/**
+ * Completes the limb leads from I and II by Einthoven's and Goldberger's
+ * equations. Many recorders (SCP-ECG in particular) store only I, II and
+ * V1–V6 and leave III, aVR, aVL and aVF to be derived.
+ */
+export const deriveLimbLeads = (signal: EcgSignal): EcgLead[] => {
+  const byName = new Map(signal.leads.map(lead => [lead.name, lead.samples]));
+  const leadI = byName.get('I');
+  const leadII = byName.get('II');
+  if (!leadI || !leadII) return signal.leads;
+
+  const derive = (formula: (i: number, ii: number) => number) => leadI.map((sample, index) => formula(sample, leadII[index] ?? 0));
+  const derived: EcgLead[] = [
+    { name: 'III', samples: byName.get('III') ?? derive((i, ii) => ii - i) },
+    { name: 'aVR', samples: byName.get('aVR') ?? derive((i, ii) => -(i + ii) / 2) },
+    { name: 'aVL', samples: byName.get('aVL') ?? derive((i, ii) => i - ii / 2) },
+    { name: 'aVF', samples: byName.get('aVF') ?? derive((i, ii) => ii - i / 2) }
+  ];
+
+  return [
+    ...signal.leads,
+    ...derived.filter(lead => !byName.has(lead.name))
+  ];
+};
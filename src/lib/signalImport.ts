@@ -0,0 +1,50 @@
+import { parseAecg } from '@/lib/aecg';
+import { parseScpEcg } from '@/lib/scpEcg';
+import { parseWfdb } from '@/lib/wfdb';
+import { EcgSignal } from '@/lib/signal';
+
+export const SIGNAL_FILE_ACCEPT = '.xml,.scp,.hea,.dat';
+
+const getExtension = (file: File) => file.name.split('.').pop()?.toLowerCase() ?? '';
+
+const importWfdb = async (header: File, files: File[]) => {
+  const dataFiles: Record<string, ArrayBuffer> = {};
+  for (const file of files) {
+    if (file !== header) {
+      dataFiles[file.name] = await file.arrayBuffer();
+    }
+  }
+  return parseWfdb(await header.text(), dataFiles);
+};
+
+/**
+ * Detects the format of dropped waveform files and parses them into a signal.
+ * XML files are read as HL7 aECG, `.scp` files as SCP-ECG, and a `.hea`
+ * header is read as WFDB together with the `.dat` files dropped with it.
+ */
+export const importSignalFiles = async (files: File[]): Promise<EcgSignal> => {
+  const header = files.find(file => getExtension(file) === 'hea');
+  const file = header ?? files[0];
+  if (!file) {
+    throw new Error('Nenhum arquivo selecionado');
+  }
+
+  let signal: EcgSignal;
+  const extension = getExtension(file);
+  if (header) {
+    signal = await importWfdb(header, files);
+  } else if (extension === 'dat') {
+    throw new Error('Selecione o arquivo .hea junto com o .dat do registro WFDB');
+  } else if (extension === 'xml' || file.type.endsWith('/xml')) {
+    signal = parseAecg(await file.text());
+  } else if (extension === 'scp') {
+    signal = parseScpEcg(await file.arrayBuffer());
+  } else {
+    throw new Error('Formato não reconhecido. Use HL7 aECG (.xml), SCP-ECG (.scp) ou WFDB (.hea + .dat)');
+  }
+
+  return {
+    ...signal,
+    metadata: { ...signal.metadata, sourceFile: file.name }
+  };
+};
@@ -0,0 +1,105 @@
+import { FirebaseStorage, ref, uploadString, uploadBytes, getBlob, getDownloadURL, deleteObject } from 'firebase/storage';
+import { ImageField, PdfField, RecordImage, StoredFile } from '@/lib/firebase';
+import { EcgSignal, parseSerializedSignal, serializeSignal, summarizeSignal, StoredSignal } from '@/lib/signal';
+
+/** Folder of a record's Storage path holding each kind of file */
+export type RecordFolder = ImageField | PdfField | 'signal';
+
+// Returns something an <img> can display, for both stored and legacy inline images
+export const getImageUrl = (image: RecordImage | undefined): string => {
+  if (!image) return '';
+  return typeof image === 'string' ? image : image.url;
+};
+
+// Normalizes single-image documents written before records had multiple pages
+export const getRecordImages = (value: RecordImage[] | RecordImage | undefined): RecordImage[] => {
+  if (!value) return [];
+  return Array.isArray(value) ? value : [value];
+};
+
+const getExtension = (contentType: string) => {
+  const subtype = contentType.split('/')[1] ?? 'bin';
+  return subtype === 'jpeg' ? 'jpg' : subtype.replace(/[^a-z0-9]/gi, '');
+};
+
+export const getDataUrlContentType = (dataUrl: string) => {
+  const match = dataUrl.match(/^data:([^;,]+)/);
+  return match ? match[1] : 'application/octet-stream';
+};
+
+const getRecordFilePath = (collectionName: string, recordId: string, folder: RecordFolder, contentType: string) => {
+  // Unique per upload, so reordering pages never overwrites an existing object
+  const name = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  return `${collectionName}/${recordId}/${folder}/${name}.${getExtension(contentType)}`;
+};
+
+export const uploadRecordFile = async (
+  storage: FirebaseStorage,
+  collectionName: string,
+  recordId: string,
+  field: RecordFolder,
+  dataUrl: string
+): Promise<StoredFile> => {
+  const contentType = getDataUrlContentType(dataUrl);
+  const path = getRecordFilePath(collectionName, recordId, field, contentType);
+  const fileRef = ref(storage, path);
+
+  const result = await uploadString(fileRef, dataUrl, 'data_url', { contentType });
+  const url = await getDownloadURL(fileRef);
+
+  return {
+    path,
+    contentType: result.metadata.contentType ?? contentType,
+    size: result.metadata.size,
+    url
+  };
+};
+
+export const uploadRecordBlob = async (
+  storage: FirebaseStorage,
+  collectionName: string,
+  recordId: string,
+  folder: RecordFolder,
+  blob: Blob
+): Promise<StoredFile> => {
+  const path = getRecordFilePath(collectionName, recordId, folder, blob.type);
+  const fileRef = ref(storage, path);
+
+  const result = await uploadBytes(fileRef, blob, { contentType: blob.type });
+  const url = await getDownloadURL(fileRef);
+
+  return {
+    path,
+    contentType: result.metadata.contentType ?? blob.type,
+    size: result.metadata.size,
+    url
+  };
+};
+
+export const uploadRecordSignal = async (
+  storage: FirebaseStorage,
+  collectionName: string,
+  recordId: string,
+  signal: EcgSignal
+): Promise<StoredSignal> => {
+  const file = await uploadRecordBlob(storage, collectionName, recordId, 'signal', serializeSignal(signal));
+  return summarizeSignal(signal, file);
+};
+
+export const loadRecordSignal = async (storage: FirebaseStorage, stored: StoredSignal): Promise<EcgSignal> => {
+  const blob = await getBlob(ref(storage, stored.path));
+  return parseSerializedSignal(await blob.text());
+};
+
+export const deleteRecordFile = async (storage: FirebaseStorage, file: RecordImage | undefined) => {
+  // Legacy inline images live inside the document itself
+  if (!file || typeof file === 'string') return;
+
+  try {
+    await deleteObject(ref(storage, file.path));
+  } catch (error) {
+    if ((error as { code?: string }).code !== 'storage/object-not-found') {
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,19 @@
+export type UserRole = 'operator' | 'physician' | 'admin';
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  operator: 'Operador',
+  physician: 'Médico',
+  admin: 'Administrador'
+};
+
+export const DEFAULT_USER_ROLE: UserRole = 'operator';
+
+// Roles allowed to see patient identifiers unmasked
+const PRIVILEGED_ROLES: UserRole[] = ['admin'];
+
+// `in` would also accept inherited names such as "constructor"
+export const isUserRole = (value: unknown): value is UserRole => {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(USER_ROLE_LABELS, value);
+};
+
+export const isPrivilegedRole = (role: UserRole) => PRIVILEGED_ROLES.includes(role);
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { exportWfdb, parseWfdb, parseWfdbHeader, toWfdbRecordName } from '@/lib/wfdb';
+import { EcgSignal } from '@/lib/signal';
+
+const int16File = (values: number[]) => {
+  const view = new DataView(new ArrayBuffer(values.length * 2));
+  values.forEach((value, i) => view.setInt16(i * 2, value, true));
+  return view.buffer;
+};
+
+describe('parseWfdbHeader', () => {
+  it('reads the record line, signal specs and base date', () => {
+    const header = parseWfdbHeader([
+      '# comment',
+      '100 2 360 650000 08:30:05 31/01/2024',
+      '100.dat 212 200(1024)/mV 11 1024 995 -22131 0 MLII',
+      '100.dat 212 200 11 1024 1011 20052 0 V5'
+    ].join('\r\n'));
+
+    expect(header.recordName).toBe('100');
+    expect(header.samplingRate).toBe(360);
+    expect(header.sampleCount).toBe(650000);
+    expect(header.acquiredAt).toBe('2024-01-31T08:30:05');
+    expect(header.signals).toEqual([
+      { fileName: '100.dat', format: 212, byteOffset: 0, gain: 200, baseline: 1024, units: 'mV', description: 'MLII' },
+      { fileName: '100.dat', format: 212, byteOffset: 0, gain: 200, baseline: 1024, units: 'mV', description: 'V5' }
+    ]);
+  });
+
+  it('defaults the sampling rate and gain', () => {
+    const header = parseWfdbHeader('rec 1\nrec.dat 16+24 0 16 0');
+    expect(header.samplingRate).toBe(250);
+    expect(header.sampleCount).toBeNull();
+    expect(header.signals[0]).toMatchObject({ format: 16, byteOffset: 24, gain: 200, baseline: 0 });
+  });
+
+  it('rejects multi-segment records and missing signal lines', () => {
+    expect(() => parseWfdbHeader('')).toThrow('Cabeçalho WFDB vazio');
+    expect(() => parseWfdbHeader('rec/2 1 250')).toThrow('multissegmento');
+    expect(() => parseWfdbHeader('rec 2 250\nrec.dat 16')).toThrow('não descreve todos os sinais');
+    expect(() => parseWfdbHeader('rec 1 250\nrec.dat 16x2')).toThrow('múltiplas amostras por quadro');
+  });
+});
+
+describe('parseWfdb', () => {
+  it('decodes interleaved format 16 samples to microvolts', () => {
+    const signal = parseWfdb('rec 2 500 2\nrec.dat 16 1000(10)/mV 16 0 0 0 0 I\nrec.dat 16 200/uV 16 0 0 0 0 avr', {
+      'rec.dat': int16File([1010, 400, 1000, -200, 990, 600])
+    });
+
+    expect(signal.samplingRate).toBe(500);
+    // The header limits each lead to two samples
+    expect(signal.leads).toEqual([
+      { name: 'I', samples: [1000, 990] },
+      { name: 'aVR', samples: [2, -1] }
+    ]);
+  });
+
+  it('unpacks format 212 and draws missing samples at the baseline', () => {
+    // 100 and -1, then -2048 (missing) and 0
+    const data = new Uint8Array([100, 0xf0, 0xff, 0x00, 0x08, 0x00]).buffer;
+    const signal = parseWfdb('rec 1 250\nrec.dat 212 200 12 0 0 0 0 II', { 'rec.dat': data });
+    expect(signal.leads[0].samples).toEqual([500, -5, 0, 0]);
+  });
+
+  it('requires every referenced signal file in a supported format', () => {
+    expect(() => parseWfdb('rec 1 250\nrec.dat 16', {})).toThrow('Arquivo de sinal ausente: rec.dat');
+    expect(() => parseWfdb('rec 1 250\nrec.dat 8', { 'rec.dat': new ArrayBuffer(2) })).toThrow('Formato WFDB 8 não suportado');
+    expect(() => parseWfdb('rec 1 250\nrec.dat 16 200/kV', { 'rec.dat': new ArrayBuffer(2) })).toThrow('Unidade não suportada no WFDB: kV');
+  });
+});
+
+describe('exportWfdb', () => {
+  const signal: EcgSignal = {
+    format: 'scp-ecg',
+    samplingRate: 500,
+    units: 'uV',
+    leads: [
+      { name: 'I', samples: [0, 125, -250, 1000] },
+      { name: 'V1', samples: [-3000, 0, 3000, 1] }
+    ],
+    metadata: { acquiredAt: '2024-01-31T14:25:30' }
+  };
+
+  it('writes a header and data that read back as the same signal', () => {
+    const record = exportWfdb(signal, 'ecg_1');
+
+    expect(record.header.split('\n')[0]).toBe('ecg_1 2 500 4 14:25:30 31/01/2024');
+    const parsed = parseWfdb(record.header, { 'ecg_1.dat': record.data });
+    expect(parsed.samplingRate).toBe(500);
+    expect(parsed.metadata).toEqual({ acquiredAt: '2024-01-31T14:25:30' });
+    expect(parsed.leads).toEqual(signal.leads);
+  });
+
+  it('records the initial value and checksum of each lead', () => {
+    const [, first] = exportWfdb(signal, 'ecg').header.split('\n');
+    // 1 µV per unit, so the checksum is the sum of the samples
+    expect(first).toBe('ecg.dat 16 1000(0)/mV 16 0 0 875 0 I');
+  });
+});
+
+describe('toWfdbRecordName', () => {
+  it('replaces characters WFDB does not allow', () => {
+    expect(toWfdbRecordName('ECG João-1.x')).toBe('ECG_Jo_o_1_x');
+    expect(toWfdbRecordName('')).toBe('ecg');
+  });
+});
@@ -0,0 +1,238 @@
+import { EcgLead, EcgSignal, EcgSignalMetadata, getSampleCount, normalizeLeadName } from '@/lib/signal';
+
+const DEFAULT_GAIN = 200;
+
+const UNITS_TO_MICROVOLTS: Record<string, number> = {
+  nV: 0.001,
+  uV: 1,
+  mV: 1000,
+  V: 1000000
+};
+
+// Sample values WFDB reserves to mark missing data
+const INVALID_SAMPLE: Record<number, number> = {
+  16: -32768,
+  212: -2048
+};
+
+interface WfdbSignalSpec {
+  fileName: string;
+  format: number;
+  byteOffset: number;
+  gain: number;
+  baseline: number;
+  units: string;
+  description: string;
+}
+
+interface WfdbHeader {
+  recordName: string;
+  samplingRate: number;
+  sampleCount: number | null;
+  acquiredAt?: string;
+  signals: WfdbSignalSpec[];
+}
+
+export interface WfdbRecord {
+  header: string;
+  data: ArrayBuffer;
+}
+
+// basetime is HH:MM:SS[.sss], basedate is DD/MM/YYYY
+const parseBaseDateTime = (time?: string, date?: string) => {
+  const dateMatch = date?.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (!dateMatch) return undefined;
+
+  const [, day, month, year] = dateMatch;
+  const [hours = '0', minutes = '0', seconds = '0'] = (time ?? '').split(':');
+  const pad = (value: string) => value.split('.')[0].padStart(2, '0');
+  return `${year}-${pad(month)}-${pad(day)}T${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+};
+
+export const parseWfdbHeader = (text: string): WfdbHeader => {
+  const lines = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'));
+  if (lines.length === 0) {
+    throw new Error('Cabeçalho WFDB vazio');
+  }
+
+  const [recordField, signalCountField, frequencyField, sampleCountField, baseTime, baseDate] = lines[0].split(/\s+/);
+  if (recordField.includes('/')) {
+    throw new Error('Registros WFDB multissegmento não são suportados');
+  }
+
+  const signalCount = Number(signalCountField);
+  const samplingRate = frequencyField ? parseFloat(frequencyField.split('/')[0]) : 250;
+  if (!Number.isInteger(signalCount) || signalCount < 1 || !(samplingRate > 0)) {
+    throw new Error('Linha de registro WFDB inválida');
+  }
+
+  const signals = lines.slice(1, 1 + signalCount).map((line): WfdbSignalSpec => {
+    const [fileName, formatField, gainField, , adcZeroField, , , , ...description] = line.split(/\s+/);
+    const formatMatch = formatField?.match(/^(\d+)(x\d+)?(:\d+)?(\+\d+)?$/);
+    if (!formatMatch) {
+      throw new Error(`Formato de sinal WFDB inválido: ${formatField}`);
+    }
+    if (formatMatch[2] && formatMatch[2] !== 'x1') {
+      throw new Error('Sinais WFDB com múltiplas amostras por quadro não são suportados');
+    }
+
+    // adcgain[(baseline)][/units]; baseline defaults to adczero
+    const gainMatch = gainField?.match(/^([\d.eE+-]+)(?:\((-?\d+)\))?(?:\/(\S+))?$/);
+    const gain = gainMatch ? Number(gainMatch[1]) || DEFAULT_GAIN : DEFAULT_GAIN;
+    const adcZero = adcZeroField ? Number(adcZeroField) : 0;
+
+    return {
+      fileName,
+      format: Number(formatMatch[1]),
+      byteOffset: formatMatch[4] ? Number(formatMatch[4].slice(1)) : 0,
+      gain,
+      baseline: gainMatch?.[2] !== undefined ? Number(gainMatch[2]) : adcZero,
+      units: gainMatch?.[3] ?? 'mV',
+      description: description.join(' ')
+    };
+  });
+
+  if (signals.length < signalCount) {
+    throw new Error('O cabeçalho WFDB não descreve todos os sinais');
+  }
+
+  return {
+    recordName: recordField,
+    samplingRate,
+    sampleCount: sampleCountField ? Number(sampleCountField) : null,
+    acquiredAt: parseBaseDateTime(baseTime, baseDate),
+    signals
+  };
+};
+
+const decodeFile = (buffer: ArrayBuffer, format: number, byteOffset: number, channels: number) => {
+  const bytes = new Uint8Array(buffer, byteOffset);
+  const values: number[] = [];
+
+  if (format === 16) {
+    const view = new DataView(buffer, byteOffset);
+    for (let i = 0; i + 1 < bytes.length; i += 2) {
+      values.push(view.getInt16(i, true));
+    }
+  } else if (format === 212) {
+    // Two 12-bit samples packed in three bytes
+    for (let i = 0; i + 2 < bytes.length; i += 3) {
+      const first = bytes[i] | ((bytes[i + 1] & 0x0f) << 8);
+      const second = bytes[i + 2] | ((bytes[i + 1] & 0xf0) << 4);
+      values.push(first > 2047 ? first - 4096 : first, second > 2047 ? second - 4096 : second);
+    }
+  } else {
+    throw new Error(`Formato WFDB ${format} não suportado; use 16 ou 212`);
+  }
+
+  // Samples are interleaved frame by frame across the file's channels
+  const frames = Math.floor(values.length / channels);
+  return Array.from({ length: channels }, (_, channel) => {
+    const samples: number[] = new Array(frames);
+    for (let frame = 0; frame < frames; frame++) {
+      samples[frame] = values[frame * channels + channel];
+    }
+    return samples;
+  });
+};
+
+/**
+ * Reads a WFDB record from its header text and the signal files it
+ * references, keyed by file name. Samples are converted to microvolts using
+ * each signal's gain and baseline.
+ */
+export const parseWfdb = (headerText: string, dataFiles: Record<string, ArrayBuffer>): EcgSignal => {
+  const header = parseWfdbHeader(headerText);
+  // Indexed like the header's signal lines, whatever file each one lives in
+  const leads: EcgLead[] = new Array(header.signals.length);
+
+  const fileNames = [...new Set(header.signals.map(signal => signal.fileName))];
+  for (const fileName of fileNames) {
+    const specs = header.signals.filter(signal => signal.fileName === fileName);
+    const buffer = dataFiles[fileName];
+    if (!buffer) {
+      throw new Error(`Arquivo de sinal ausente: ${fileName}`);
+    }
+    if (specs.some(spec => spec.format !== specs[0].format || spec.byteOffset !== specs[0].byteOffset)) {
+      throw new Error(`Sinais de ${fileName} usam formatos diferentes`);
+    }
+
+    const channels = decodeFile(buffer, specs[0].format, specs[0].byteOffset, specs.length);
+    specs.forEach((spec, channel) => {
+      const factor = UNITS_TO_MICROVOLTS[spec.units];
+      if (factor === undefined) {
+        throw new Error(`Unidade não suportada no WFDB: ${spec.units}`);
+      }
+
+      const invalid = INVALID_SAMPLE[spec.format];
+      const digital = header.sampleCount ? channels[channel].slice(0, header.sampleCount) : channels[channel];
+      const index = header.signals.indexOf(spec);
+      leads[index] = {
+        name: normalizeLeadName(spec.description || `Sinal ${index + 1}`),
+        // Missing samples are drawn at the baseline
+        samples: digital.map(value => (value === invalid ? 0 : ((value - spec.baseline) / spec.gain) * factor))
+      };
+    });
+  }
+
+  const metadata: EcgSignalMetadata = {};
+  if (header.acquiredAt) metadata.acquiredAt = header.acquiredAt;
+
+  return {
+    format: 'wfdb',
+    samplingRate: header.samplingRate,
+    units: 'uV',
+    leads,
+    metadata
+  };
+};
+
+/** Makes a string usable as a WFDB record name (letters, digits and underscores). */
+export const toWfdbRecordName = (value: string) => {
+  return value.replace(/[^A-Za-z0-9_]/g, '_') || 'ecg';
+};
+
+/**
+ * Writes a signal as a WFDB record: a header and a single format 16 signal
+ * file holding all leads interleaved, in millivolts.
+ */
+export const exportWfdb = (signal: EcgSignal, recordName: string): WfdbRecord => {
+  const sampleCount = getSampleCount(signal);
+  const channels = signal.leads.length;
+  const buffer = new ArrayBuffer(sampleCount * channels * 2);
+  const view = new DataView(buffer);
+  const dataFileName = `${recordName}.dat`;
+
+  const signalLines = signal.leads.map((lead, channel) => {
+    const peakMillivolts = lead.samples.reduce((peak, sample) => Math.max(peak, Math.abs(sample) / 1000), 1);
+    // 1 µV resolution where the amplitude allows it, without overflowing 16 bits
+    const gain = Math.min(1000, Math.floor(32767 / peakMillivolts));
+    let checksum = 0;
+    let initial = 0;
+
+    for (let frame = 0; frame < sampleCount; frame++) {
+      const value = Math.round(((lead.samples[frame] ?? 0) / 1000) * gain);
+      view.setInt16((frame * channels + channel) * 2, value, true);
+      if (frame === 0) initial = value;
+      checksum = (checksum + value) & 0xffff;
+    }
+
+    const signedChecksum = checksum > 32767 ? checksum - 65536 : checksum;
+    return `${dataFileName} 16 ${gain}(0)/mV 16 0 ${initial} ${signedChecksum} 0 ${lead.name}`;
+  });
+
+  let recordLine = `${recordName} ${channels} ${signal.samplingRate} ${sampleCount}`;
+  const acquiredAt = signal.metadata.acquiredAt?.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}:\d{2}:\d{2})/);
+  if (acquiredAt) {
+    const [, year, month, day, time] = acquiredAt;
+    recordLine += ` ${time} ${day}/${month}/${year}`;
+  }
+
+  return {
+    header: [recordLine, ...signalLines].join('\n') + '\n',
+    data: buffer
+  };
+};
@@ -1,125 +1,94 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
-import { ImageUpload } from '@/components/ImageUpload';
+import { Form } from '@/components/ui/form';
+import { MedicalRecordFields } from '@/components/MedicalRecordFields';
 import { FirestoreConfig } from '@/components/FirestoreConfig';
+import { UserRoleSettings } from '@/components/UserRoleSettings';
+import { CredentialLockSettings } from '@/components/CredentialLockSettings';
+import { ProfileSwitcher } from '@/components/ProfileSwitcher';
 import { useToast } from '@/hooks/use-toast';
-import { Send, FileText, Activity, Settings } from 'lucide-react';
-import { initializeApp } from 'firebase/app';
-import { getFirestore, collection, addDoc } from 'firebase/firestore';
-
-interface MedicalRecord {
-  ecg: string;
-  laudo: string;
-  descricao: string;
-}
-
-interface FirestoreCredentials {
-  projectId: string;
-  apiKey: string;
-  authDomain: string;
-  storageBucket: string;
-  messagingSenderId: string;
-  appId: string;
-  collectionName: string;
-}
+import { useFirebase } from '@/hooks/use-firebase';
+import { Send, FileText, Activity, Settings, List } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { MedicalRecord } from '@/lib/firebase';
+import { EMPTY_MEASUREMENTS } from '@/lib/measurements';
+import { medicalRecordSchema } from '@/lib/recordSchema';
+
+const EMPTY_RECORD: MedicalRecord = {
+  patient: null,
+  ecg: [],
+  laudo: [],
+  ecgPdf: [],
+  laudoPdf: [],
+  ecgPdfPages: [],
+  laudoPdfPages: [],
+  signal: null,
+  measurements: EMPTY_MEASUREMENTS,
+  diagnoses: [],
+  descricao: ''
+};
 
 const Index = () => {
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState('data');
-  const [isConnected, setIsConnected] = useState(false);
+  const { services, isDemo, records } = useFirebase();
   const [isSubmitting, setIsSubmitting] = useState(false);
-  
-  const [record, setRecord] = useState<MedicalRecord>({
-    ecg: '',
-    laudo: '',
-    descricao: ''
-  });
 
-  // Check if credentials exist on component mount
-  useEffect(() => {
-    const savedCredentials = localStorage.getItem('firestore_credentials');
-    if (savedCredentials) {
-      setIsConnected(true);
-    }
-  }, []);
+  const form = useForm<MedicalRecord>({
+    resolver: zodResolver(medicalRecordSchema),
+    defaultValues: EMPTY_RECORD
+  });
 
-  const handleCredentialsSave = (credentials: FirestoreCredentials) => {
-    setIsConnected(true);
-    console.log('Firebase credentials saved:', credentials);
+  const handleInvalid = () => {
+    toast({
+      title: "Campos inválidos",
+      description: "Corrija os campos destacados antes de enviar",
+      variant: "destructive"
+    });
   };
 
-  const handleSubmit = async () => {
-    if (!isConnected) {
+  const handleSubmit = async (record: MedicalRecord) => {
+    if (!records) {
       toast({
         title: "Conexão necessária",
-        description: "Configure as credenciais do Firestore na aba Configurações",
+        description: "Configure as credenciais do Firestore ou ative o modo demonstração na aba Configurações",
         variant: "destructive"
       });
       setActiveTab('config');
       return;
     }
 
-    if (!record.ecg || !record.laudo || !record.descricao) {
+    if (!isDemo && !services.storage) {
       toast({
-        title: "Campos obrigatórios",
-        description: "Por favor, preencha todos os campos antes de enviar",
+        title: "Storage não configurado",
+        description: "Informe o Storage Bucket, ou a porta do emulador do Storage, na aba Configurações para enviar as imagens",
         variant: "destructive"
       });
+      setActiveTab('config');
       return;
     }
 
     setIsSubmitting(true);
 
     try {
-      // Get saved credentials from localStorage
-      const savedCredentials = localStorage.getItem('firestore_credentials');
-      if (!savedCredentials) {
-        throw new Error('Credenciais não encontradas');
-      }
-
-      const credentials: FirestoreCredentials = JSON.parse(savedCredentials);
-      
-      // Initialize Firebase
-      const firebaseConfig = {
-        apiKey: credentials.apiKey,
-        authDomain: credentials.authDomain,
-        projectId: credentials.projectId,
-        storageBucket: credentials.storageBucket,
-        messagingSenderId: credentials.messagingSenderId,
-        appId: credentials.appId
-      };
-
-      const app = initializeApp(firebaseConfig, `medical-app-${Date.now()}`);
-      const db = getFirestore(app);
-
-      // Send data to Firestore
-      const docRef = await addDoc(collection(db, credentials.collectionName), {
-        ecg: record.ecg,
-        laudo: record.laudo,
-        descricao: record.descricao,
-        timestamp: new Date().toISOString(),
-        created_at: new Date()
-      });
+      const recordId = await records.create(record);
 
-      console.log('Document written with ID: ', docRef.id);
+      console.log('Document written with ID: ', recordId);
       
       toast({
         title: "Dados enviados com sucesso!",
-        description: `Registro médico salvo no Firestore com ID: ${docRef.id}`,
+        description: isDemo
+          ? `Registro de demonstração salvo na memória com ID: ${recordId}`
+          : `Registro médico salvo no Firestore com ID: ${recordId}`,
         variant: "default"
       });
 
       // Reset form
-      setRecord({
-        ecg: '',
-        laudo: '',
-        descricao: ''
-      });
+      form.reset(EMPTY_RECORD);
     } catch (error) {
       console.error('Error submitting to Firestore:', error);
       toast({
@@ -142,6 +111,15 @@ const Index = () => {
           <p className="text-muted-foreground">
             Gerencie ECGs, laudos e descrições com envio seguro para Firestore
           </p>
+          <div className="mt-2 flex flex-wrap items-center justify-center gap-2">
+            <ProfileSwitcher />
+            <Button variant="link" asChild>
+              <Link to="/records" className="flex items-center space-x-2">
+                <List className="h-4 w-4" />
+                <span>Ver registros enviados</span>
+              </Link>
+            </Button>
+          </div>
         </div>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
@@ -164,38 +142,17 @@ const Index = () => {
                   <span>Novo Registro Médico</span>
                 </CardTitle>
                 <CardDescription>
-                  Faça upload dos arquivos ECG e laudo, adicione uma descrição
+                  Selecione o paciente, faça upload dos arquivos ECG e laudo e adicione uma descrição
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-6 pt-6">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  <ImageUpload
-                    label="ECG"
-                    value={record.ecg}
-                    onChange={(value) => setRecord(prev => ({ ...prev, ecg: value }))}
-                  />
-                  
-                  <ImageUpload
-                    label="Laudo"
-                    value={record.laudo}
-                    onChange={(value) => setRecord(prev => ({ ...prev, laudo: value }))}
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="descricao">Descrição</Label>
-                  <Textarea
-                    id="descricao"
-                    placeholder="Descreva os detalhes relevantes do exame..."
-                    value={record.descricao}
-                    onChange={(e) => setRecord(prev => ({ ...prev, descricao: e.target.value }))}
-                    className="min-h-[100px] transition-all duration-200 focus:shadow-md"
-                  />
-                </div>
+                <Form {...form}>
+                  <MedicalRecordFields signalLabel="Sinal digital (opcional)" />
+                </Form>
 
                 <div className="flex justify-end pt-4">
                   <Button
-                    onClick={handleSubmit}
+                    onClick={form.handleSubmit(handleSubmit, handleInvalid)}
                     disabled={isSubmitting}
                     className="bg-gradient-to-r from-primary to-primary-glow hover:shadow-lg transition-all duration-300 min-w-[140px]"
                     style={{ boxShadow: 'var(--shadow-medical)' }}
@@ -217,11 +174,10 @@ const Index = () => {
             </Card>
           </TabsContent>
 
-          <TabsContent value="config">
-            <FirestoreConfig
-              onCredentialsSave={handleCredentialsSave}
-              isConnected={isConnected}
-            />
+          <TabsContent value="config" className="space-y-6">
+            <FirestoreConfig />
+            <CredentialLockSettings />
+            <UserRoleSettings />
           </TabsContent>
         </Tabs>
       </div>
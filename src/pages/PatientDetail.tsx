@@ -0,0 +1,174 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { RecordThumbnail } from '@/components/RecordThumbnail';
+import { useToast } from '@/hooks/use-toast';
+import { useUserRole } from '@/hooks/use-user-role';
+import { useRepositories } from '@/hooks/use-firebase';
+import { ArrowLeft, Loader2, User } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { MedicalRecordDocument } from '@/lib/firebase';
+import { getPatientAge, PatientRow, SEX_LABELS } from '@/lib/patients';
+import { displayIdentifier } from '@/lib/identifiers';
+
+interface RecordRow extends MedicalRecordDocument {
+  id: string;
+}
+
+const PatientDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { isPrivileged } = useUserRole();
+  const { records: recordRepository, patients } = useRepositories();
+  const [isLoading, setIsLoading] = useState(true);
+  const [patient, setPatient] = useState<PatientRow | null>(null);
+  const [records, setRecords] = useState<RecordRow[]>([]);
+
+  useEffect(() => {
+    const loadPatient = async () => {
+      setIsLoading(true);
+      try {
+        if (!recordRepository || !patients) {
+          throw new Error('Credenciais não encontradas');
+        }
+
+        const [found, validated] = await Promise.all([
+          patients.get(id),
+          recordRepository.query({ patientId: id })
+        ]);
+
+        const invalid = validated.filter(row => !row.record);
+        if (invalid.length > 0) {
+          console.error('Invalid record documents in Firestore:', invalid);
+          toast({
+            title: "Registros inválidos",
+            description: `${invalid.length} registro(s) deste paciente estão em formato inválido e não foram listados.`,
+            variant: "destructive"
+          });
+        }
+
+        // Sorted here rather than with orderBy, which would need a composite index
+        const rows = validated
+          .filter(row => row.record)
+          .map(({ id: recordId, record }) => ({ id: recordId, ...record }))
+          .sort((a, b) => (a.created_at?.toMillis() ?? 0) - (b.created_at?.toMillis() ?? 0));
+
+        setPatient(found);
+        setRecords(rows);
+      } catch (error) {
+        console.error('Error loading patient from Firestore:', error);
+        toast({
+          title: "Erro ao carregar",
+          description: "Não foi possível carregar o paciente. Verifique sua conexão e credenciais.",
+          variant: "destructive"
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadPatient();
+  }, [recordRepository, patients, id, toast]);
+
+  const age = patient && getPatientAge(patient);
+
+  return (
+    <div className="min-h-screen bg-background py-8">
+      <div className="container mx-auto px-4 max-w-5xl">
+        <div className="mb-8 flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground mb-2 bg-gradient-to-r from-primary to-primary-glow bg-clip-text text-transparent">
+              {patient?.name ?? 'Paciente'}
+            </h1>
+            {patient && (
+              <p className="text-muted-foreground">
+                ID {patient.internalId} · {SEX_LABELS[patient.sex]}
+                {patient.birthDate && ` · Nascimento ${format(parseISO(patient.birthDate), 'dd/MM/yyyy')}`}
+                {age !== null && ` (${age} anos)`}
+                {patient.cpf && ` · CPF ${displayIdentifier('cpf', patient.cpf, isPrivileged)}`}
+                {patient.cns && ` · CNS ${displayIdentifier('cns', patient.cns, isPrivileged)}`}
+              </p>
+            )}
+          </div>
+          <Button variant="outline" asChild>
+            <Link to="/records" className="flex items-center space-x-2">
+              <ArrowLeft className="h-4 w-4" />
+              <span>Voltar</span>
+            </Link>
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center space-x-2 py-8">
+            <Loader2 className="h-4 w-4 animate-spin text-primary" />
+            <span className="text-sm text-primary font-medium">Carregando...</span>
+          </div>
+        ) : !patient ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            Paciente não encontrado.
+          </p>
+        ) : (
+          <Card className="border-primary/20" style={{ boxShadow: 'var(--shadow-card)' }}>
+            <CardHeader className="bg-gradient-to-r from-primary/5 to-primary-glow/5">
+              <CardTitle className="flex items-center space-x-2">
+                <User className="h-5 w-5 text-primary" />
+                <span>ECGs do Paciente</span>
+              </CardTitle>
+              <CardDescription>
+                Em ordem cronológica, do mais antigo para o mais recente
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="pt-6">
+              {records.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  Nenhum ECG registrado para este paciente.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[140px]">Data</TableHead>
+                      <TableHead className="w-[100px]">ECG</TableHead>
+                      <TableHead>Descrição</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {records.map(row => (
+                      <TableRow
+                        key={row.id}
+                        onClick={() => navigate(`/records/${row.id}`)}
+                        className="cursor-pointer"
+                      >
+                        <TableCell className="text-muted-foreground">
+                          {row.created_at ? format(row.created_at.toDate(), 'dd/MM/yyyy HH:mm') : '—'}
+                        </TableCell>
+                        <TableCell>
+                          <RecordThumbnail images={row.ecg} alt="ECG" />
+                        </TableCell>
+                        <TableCell className="max-w-md">
+                          <p className="line-clamp-3 whitespace-pre-line">{row.descricao}</p>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PatientDetail;
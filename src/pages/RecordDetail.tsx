@@ -0,0 +1,522 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Form } from '@/components/ui/form';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { MedicalRecordFields } from '@/components/MedicalRecordFields';
+import { EcgMeasurementsForm } from '@/components/EcgMeasurementsForm';
+import { DiagnosisPicker } from '@/components/DiagnosisPicker';
+import { EcgWaveformViewer } from '@/components/EcgWaveformViewer';
+import { EcgImageViewer } from '@/components/EcgImageViewer';
+import { useToast } from '@/hooks/use-toast';
+import { useUserRole } from '@/hooks/use-user-role';
+import { useRepositories } from '@/hooks/use-firebase';
+import { ArrowLeft, Activity, Download, FileText, Loader2, Pencil, Save, Trash2, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { MedicalRecord, MedicalRecordDocument } from '@/lib/firebase';
+import { getImageUrl, getRecordImages } from '@/lib/storage';
+import { RecordChanges } from '@/lib/recordRepository';
+import { EcgSignal, getSignalDuration, SIGNAL_FORMAT_LABELS } from '@/lib/signal';
+import { exportWfdb, toWfdbRecordName } from '@/lib/wfdb';
+import { PageCalipers } from '@/lib/calipers';
+import { getPatientAge, PatientRow, SEX_LABELS } from '@/lib/patients';
+import { displayIdentifier } from '@/lib/identifiers';
+import { fromStoredMeasurements, hasMeasurements } from '@/lib/measurements';
+import { legacyMedicalRecordSchema, medicalRecordSchema } from '@/lib/recordSchema';
+
+const RecordDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { isPrivileged, canEditRecords } = useUserRole();
+  const { records, patients } = useRepositories();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [notFound, setNotFound] = useState(false);
+  const [stored, setStored] = useState<MedicalRecordDocument | null>(null);
+  const [signal, setSignal] = useState<EcgSignal | null>(null);
+  const [signalError, setSignalError] = useState(false);
+  const [patient, setPatient] = useState<PatientRow | null>(null);
+  // Why the linked patient could not be shown, once loading it has failed
+  const [patientError, setPatientError] = useState<string | null>(null);
+  // Validation problems of a document that does not match the record schema
+  const [invalidIssues, setInvalidIssues] = useState<string[]>([]);
+  // Set when editing starts: records without a patient may be saved without one
+  const allowsNoPatient = useRef(false);
+  const form = useForm<MedicalRecord>({
+    resolver: (values, context, options) => {
+      const schema = allowsNoPatient.current ? legacyMedicalRecordSchema : medicalRecordSchema;
+      return zodResolver(schema)(values, context, options);
+    }
+  });
+
+  const record: MedicalRecord | null = stored && {
+    patient,
+    ecg: getRecordImages(stored.ecg).map(getImageUrl),
+    laudo: getRecordImages(stored.laudo).map(getImageUrl),
+    ecgPdf: (stored.ecgPdf ?? []).map(getImageUrl),
+    laudoPdf: (stored.laudoPdf ?? []).map(getImageUrl),
+    ecgPdfPages: stored.ecgPdfPages ?? [],
+    laudoPdfPages: stored.laudoPdfPages ?? [],
+    signal,
+    measurements: fromStoredMeasurements(stored.measurements),
+    diagnoses: stored.diagnoses ?? [],
+    descricao: stored.descricao ?? ''
+  };
+  const createdAt = stored?.created_at?.toDate() ?? null;
+  // Editing before the patient arrives would reset the form without one
+  const isPatientLoading = !!stored?.patientId && !patient && !patientError;
+
+  useEffect(() => {
+    const loadRecord = async () => {
+      setIsLoading(true);
+      // Nothing of the previously shown record carries over to the next one
+      setNotFound(false);
+      setInvalidIssues([]);
+      setStored(null);
+      setPatient(null);
+      setPatientError(null);
+      setSignal(null);
+      setSignalError(false);
+      setIsEditing(false);
+      try {
+        if (!records || !patients) {
+          throw new Error('Credenciais não encontradas');
+        }
+
+        const found = await records.get(id);
+        if (!found) {
+          setNotFound(true);
+          return;
+        }
+
+        if (!found.record) {
+          console.error('Invalid record document in Firestore:', found.issues);
+          setInvalidIssues(found.issues);
+          return;
+        }
+
+        const data = found.record;
+        setStored(data);
+
+        if (data.patientId) {
+          patients.get(data.patientId).then(found => {
+            if (found) {
+              setPatient(found);
+            } else {
+              setPatientError('Paciente vinculado não encontrado.');
+            }
+          }).catch(error => {
+            console.error('Error loading patient from Firestore:', error);
+            setPatientError('Não foi possível carregar o paciente.');
+          });
+        }
+
+        if (data.signal) {
+          // A missing waveform should not keep the rest of the record from showing
+          records.loadSignal(data.signal).then(setSignal).catch(error => {
+            console.error('Error loading signal from Storage:', error);
+            setSignalError(true);
+          });
+        }
+      } catch (error) {
+        console.error('Error loading record from Firestore:', error);
+        toast({
+          title: "Erro ao carregar",
+          description: "Não foi possível carregar o registro. Verifique sua conexão e credenciais.",
+          variant: "destructive"
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadRecord();
+  }, [records, patients, id, toast]);
+
+  const handleCalipersChange = async (value: PageCalipers) => {
+    const ecgCalipers = [
+      ...(stored.ecgCalipers ?? []).filter(item => item.image !== value.image),
+      value
+    ];
+    setStored(prev => ({ ...prev, ecgCalipers }));
+
+    try {
+      await records.update(id, { ecgCalipers });
+    } catch (error) {
+      console.error('Error saving calipers to Firestore:', error);
+      toast({
+        title: "Erro ao salvar medidas",
+        description: "Não foi possível salvar a calibração e as medidas. Verifique suas permissões.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const renderPages = (label: string, pages: string[], pdfs: string[], measurable = false) => (
+    <div className="space-y-4">
+      {pdfs.map((pdf, index) => (
+        <a
+          key={pdf}
+          href={pdf}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center space-x-2 text-sm text-primary hover:underline"
+        >
+          <FileText className="h-4 w-4" />
+          <span>Abrir PDF original{pdfs.length > 1 ? ` ${index + 1}` : ''}</span>
+        </a>
+      ))}
+      {pages.map((page, index) => (
+        <figure key={index} className="space-y-1">
+          {measurable ? (
+            <EcgImageViewer
+              image={page}
+              alt={`${label} - página ${index + 1}`}
+              value={stored.ecgCalipers?.find(item => item.image === page)}
+              onChange={handleCalipersChange}
+            />
+          ) : (
+            <img src={page} alt={`${label} - página ${index + 1}`} className="w-full object-contain rounded border" />
+          )}
+          {pages.length > 1 && (
+            <figcaption className="text-xs text-muted-foreground text-center">
+              Página {index + 1} de {pages.length}
+            </figcaption>
+          )}
+        </figure>
+      ))}
+    </div>
+  );
+
+  const downloadFile = (data: BlobPart, fileName: string) => {
+    const url = URL.createObjectURL(new Blob([data], { type: 'application/octet-stream' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportWfdb = () => {
+    if (!signal) return;
+
+    const recordName = toWfdbRecordName(`ecg_${id}`);
+    const { header, data } = exportWfdb(signal, recordName);
+    downloadFile(header, `${recordName}.hea`);
+    downloadFile(data, `${recordName}.dat`);
+  };
+
+  // The role may have changed, e.g. by the credentials locking, since the page rendered
+  useEffect(() => {
+    if (!canEditRecords) setIsEditing(false);
+  }, [canEditRecords]);
+
+  const startEditing = () => {
+    if (!record || !canEditRecords || isPatientLoading) return;
+    allowsNoPatient.current = !stored.patientId;
+    form.reset(record);
+    setIsEditing(true);
+  };
+
+  const handleInvalid = () => {
+    toast({
+      title: "Campos inválidos",
+      description: "Corrija os campos destacados antes de salvar",
+      variant: "destructive"
+    });
+  };
+
+  const handleSave = async (draft: MedicalRecord) => {
+    if (!canEditRecords) return;
+    setIsSaving(true);
+    try {
+      const changes: RecordChanges = {
+        patient: draft.patient,
+        ecg: draft.ecg,
+        laudo: draft.laudo,
+        ecgPdf: draft.ecgPdf,
+        laudoPdf: draft.laudoPdf,
+        ecgPdfPages: draft.ecgPdfPages,
+        laudoPdfPages: draft.laudoPdfPages,
+        measurements: draft.measurements,
+        diagnoses: draft.diagnoses,
+        descricao: draft.descricao
+      };
+      // The form keeps its own copy of the values, so compare through its dirty state
+      if (form.getFieldState('signal').isDirty) {
+        changes.signal = draft.signal;
+      }
+
+      const updated = await records.update(id, changes);
+
+      setStored(updated);
+      setSignal(draft.signal);
+      setPatient(draft.patient);
+      setIsEditing(false);
+      toast({
+        title: "Registro atualizado",
+        description: "As alterações foram salvas no Firestore.",
+        variant: "default"
+      });
+    } catch (error) {
+      console.error('Error updating record in Firestore:', error);
+      toast({
+        title: "Erro ao salvar",
+        description: "Ocorreu um erro ao atualizar o registro. Verifique suas permissões.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!canEditRecords) return;
+    setIsDeleting(true);
+    try {
+      await records.delete(id);
+      toast({
+        title: "Registro excluído",
+        description: `O registro ${id} foi removido do Firestore.`,
+        variant: "default"
+      });
+      navigate('/records');
+    } catch (error) {
+      console.error('Error deleting record from Firestore:', error);
+      toast({
+        title: "Erro ao excluir",
+        description: "Ocorreu um erro ao excluir o registro. Verifique suas permissões.",
+        variant: "destructive"
+      });
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background py-8">
+      <div className="container mx-auto px-4 max-w-4xl">
+        <div className="mb-8 flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground mb-2 bg-gradient-to-r from-primary to-primary-glow bg-clip-text text-transparent">
+              Detalhes do Registro
+            </h1>
+            <p className="text-muted-foreground break-all">ID: {id}</p>
+          </div>
+          <Button variant="outline" asChild>
+            <Link to="/records" className="flex items-center space-x-2">
+              <ArrowLeft className="h-4 w-4" />
+              <span>Voltar</span>
+            </Link>
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center space-x-2 py-8">
+            <Loader2 className="h-4 w-4 animate-spin text-primary" />
+            <span className="text-sm text-primary font-medium">Carregando...</span>
+          </div>
+        ) : invalidIssues.length > 0 ? (
+          <Card className="border-destructive/40">
+            <CardHeader>
+              <CardTitle className="text-destructive">Registro em formato inválido</CardTitle>
+              <CardDescription>
+                O documento salvo no Firestore não corresponde ao formato esperado e não pode ser exibido.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ul className="list-disc space-y-1 pl-5 text-sm text-muted-foreground">
+                {invalidIssues.map(issue => (
+                  <li key={issue} className="break-all">{issue}</li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        ) : notFound || !record ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            Registro não encontrado.
+          </p>
+        ) : (
+          <Card className="border-primary/20" style={{ boxShadow: 'var(--shadow-card)' }}>
+            <CardHeader className="bg-gradient-to-r from-primary/5 to-primary-glow/5">
+              <CardTitle className="flex items-center space-x-2">
+                <Activity className="h-5 w-5 text-primary" />
+                <span>Registro Médico</span>
+              </CardTitle>
+              <CardDescription>
+                {createdAt ? `Criado em ${format(createdAt, 'dd/MM/yyyy HH:mm')}` : 'Data de criação desconhecida'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6 pt-6">
+              {isEditing ? (
+                <Form {...form}>
+                  <MedicalRecordFields signalLabel="Sinal digital" />
+                </Form>
+              ) : (
+                <>
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-medium text-foreground">Paciente</h3>
+                    {record.patient ? (
+                      <p className="text-sm text-muted-foreground">
+                        <Link to={`/patients/${record.patient.id}`} className="font-medium text-primary hover:underline">
+                          {record.patient.name}
+                        </Link>
+                        {` · ID ${record.patient.internalId} · ${SEX_LABELS[record.patient.sex]}`}
+                        {getPatientAge(record.patient) !== null && ` · ${getPatientAge(record.patient)} anos`}
+                        {record.patient.cpf && ` · CPF ${displayIdentifier('cpf', record.patient.cpf, isPrivileged)}`}
+                        {record.patient.cns && ` · CNS ${displayIdentifier('cns', record.patient.cns, isPrivileged)}`}
+                      </p>
+                    ) : patientError ? (
+                      <p className="text-sm text-destructive">{patientError}</p>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">
+                        {stored.patientId ? 'Carregando paciente...' : 'Nenhum paciente vinculado.'}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-medium text-foreground">ECG</h3>
+                    {renderPages('ECG', record.ecg, record.ecgPdf, true)}
+                  </div>
+
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-medium text-foreground">Laudo</h3>
+                    {renderPages('Laudo', record.laudo, record.laudoPdf)}
+                  </div>
+
+                  {stored.signal && (
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <h3 className="text-sm font-medium text-foreground">Sinal digital</h3>
+                        <Button variant="outline" size="sm" onClick={handleExportWfdb} disabled={!signal}>
+                          <Download className="h-4 w-4 mr-2" />
+                          Exportar WFDB
+                        </Button>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {SIGNAL_FORMAT_LABELS[stored.signal.format]} · {stored.signal.leads.length} derivações · {stored.signal.samplingRate} Hz
+                        {signal && ` · ${getSignalDuration(signal).toFixed(1)} s`}
+                      </p>
+                      {signal ? (
+                        <EcgWaveformViewer signal={signal} />
+                      ) : signalError ? (
+                        <p className="text-sm text-destructive">Não foi possível carregar o sinal do Storage.</p>
+                      ) : (
+                        <div className="flex items-center space-x-2 py-4">
+                          <Loader2 className="h-4 w-4 animate-spin text-primary" />
+                          <span className="text-sm text-primary font-medium">Carregando sinal...</span>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {hasMeasurements(record.measurements) && (
+                    <div className="space-y-2">
+                      <h3 className="text-sm font-medium text-foreground">Medidas</h3>
+                      <EcgMeasurementsForm value={record.measurements} />
+                    </div>
+                  )}
+
+                  {record.diagnoses.length > 0 && (
+                    <div className="space-y-2">
+                      <h3 className="text-sm font-medium text-foreground">Diagnósticos codificados</h3>
+                      <DiagnosisPicker value={record.diagnoses} />
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-medium text-foreground">Descrição</h3>
+                    <p className="text-sm text-muted-foreground whitespace-pre-line">{record.descricao}</p>
+                  </div>
+                </>
+              )}
+
+              {canEditRecords ? (
+                <div className="flex justify-between pt-4">
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="destructive" disabled={isDeleting || isSaving}>
+                        {isDeleting ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <Trash2 className="h-4 w-4 mr-2" />
+                        )}
+                        Excluir
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Excluir registro?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Esta ação não pode ser desfeita. O ECG, o laudo e a descrição deste registro serão removidos permanentemente do Firestore.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={handleDelete}
+                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        >
+                          Excluir
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+
+                  {isEditing ? (
+                    <div className="flex space-x-2">
+                      <Button variant="outline" onClick={() => setIsEditing(false)} disabled={isSaving}>
+                        <X className="h-4 w-4 mr-2" />
+                        Cancelar
+                      </Button>
+                      <Button
+                        onClick={form.handleSubmit(handleSave, handleInvalid)}
+                        disabled={isSaving}
+                        className="bg-gradient-to-r from-primary to-primary-glow hover:shadow-lg transition-all duration-300"
+                        style={{ boxShadow: 'var(--shadow-medical)' }}
+                      >
+                        {isSaving ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <Save className="h-4 w-4 mr-2" />
+                        )}
+                        Salvar Alterações
+                      </Button>
+                    </div>
+                  ) : (
+                    <Button variant="outline" onClick={startEditing} disabled={isDeleting || isPatientLoading}>
+                      <Pencil className="h-4 w-4 mr-2" />
+                      Editar
+                    </Button>
+                  )}
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground pt-4">
+                  Somente o perfil Administrador pode editar ou excluir registros.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecordDetail;
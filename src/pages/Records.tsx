@@ -0,0 +1,226 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { RecordThumbnail } from '@/components/RecordThumbnail';
+import { ProfileSwitcher } from '@/components/ProfileSwitcher';
+import { useToast } from '@/hooks/use-toast';
+import { useRepositories } from '@/hooks/use-firebase';
+import { ArrowLeft, List, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { Timestamp } from 'firebase/firestore';
+import { ValidatedRecord } from '@/lib/recordSchema';
+import { RecordCursor } from '@/lib/recordRepository';
+
+const PAGE_SIZE = 10;
+
+const Records = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { records } = useRepositories();
+  const [rows, setRows] = useState<ValidatedRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasCredentials, setHasCredentials] = useState(true);
+  const [page, setPage] = useState(0);
+  const [hasNextPage, setHasNextPage] = useState(false);
+  // Position after each page already visited; cursor for the page after it
+  const [pageCursors, setPageCursors] = useState<RecordCursor[]>([]);
+
+  const loadPage = useCallback(async (pageIndex: number, cursor?: RecordCursor) => {
+    if (!records) {
+      setHasCredentials(false);
+      return;
+    }
+
+    setHasCredentials(true);
+    setIsLoading(true);
+
+    try {
+      const result = await records.list(PAGE_SIZE, cursor);
+
+      setRows(result.rows);
+      setHasNextPage(result.hasNextPage);
+      setPage(pageIndex);
+
+      if (result.cursor !== null) {
+        setPageCursors(prev => {
+          const next = prev.slice(0, pageIndex);
+          next[pageIndex] = result.cursor;
+          return next;
+        });
+      }
+    } catch (error) {
+      console.error('Error loading records from Firestore:', error);
+      toast({
+        title: "Erro ao carregar",
+        description: "Não foi possível listar os registros do Firestore. Verifique sua conexão e credenciais.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [records, toast]);
+
+  useEffect(() => {
+    loadPage(0);
+  }, [loadPage]);
+
+  const goToPreviousPage = (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (page === 0 || isLoading) return;
+    loadPage(page - 1, page > 1 ? pageCursors[page - 2] : undefined);
+  };
+
+  const goToNextPage = (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (!hasNextPage || isLoading) return;
+    loadPage(page + 1, pageCursors[page]);
+  };
+
+  const formatCreatedAt = (createdAt?: Timestamp) => {
+    if (!createdAt) return '—';
+    return format(createdAt.toDate(), 'dd/MM/yyyy HH:mm');
+  };
+
+  return (
+    <div className="min-h-screen bg-background py-8">
+      <div className="container mx-auto px-4 max-w-5xl">
+        <div className="mb-8 flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground mb-2 bg-gradient-to-r from-primary to-primary-glow bg-clip-text text-transparent">
+              Registros Enviados
+            </h1>
+            <p className="text-muted-foreground">
+              Consulte os ECGs, laudos e descrições já salvos no Firestore
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <ProfileSwitcher />
+            <Button variant="outline" asChild>
+              <Link to="/" className="flex items-center space-x-2">
+                <ArrowLeft className="h-4 w-4" />
+                <span>Novo Registro</span>
+              </Link>
+            </Button>
+          </div>
+        </div>
+
+        <Card className="border-primary/20" style={{ boxShadow: 'var(--shadow-card)' }}>
+          <CardHeader className="bg-gradient-to-r from-primary/5 to-primary-glow/5">
+            <CardTitle className="flex items-center space-x-2">
+              <List className="h-5 w-5 text-primary" />
+              <span>Registros Médicos</span>
+            </CardTitle>
+            <CardDescription>
+              Ordenados do mais recente para o mais antigo
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6 pt-6">
+            {!hasCredentials ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                Configure as credenciais do Firestore ou ative o modo demonstração na aba Configurações para visualizar os registros.
+              </p>
+            ) : isLoading && rows.length === 0 ? (
+              <div className="flex items-center justify-center space-x-2 py-8">
+                <Loader2 className="h-4 w-4 animate-spin text-primary" />
+                <span className="text-sm text-primary font-medium">Carregando...</span>
+              </div>
+            ) : rows.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                Nenhum registro encontrado.
+              </p>
+            ) : (
+              <Table className={isLoading ? 'opacity-50' : ''}>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[100px]">ECG</TableHead>
+                    <TableHead className="w-[100px]">Laudo</TableHead>
+                    <TableHead>Descrição</TableHead>
+                    <TableHead className="w-[140px]">Criado em</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(({ id, record, issues }) => (
+                    <TableRow
+                      key={id}
+                      onClick={() => navigate(`/records/${id}`)}
+                      className="cursor-pointer"
+                    >
+                      {record ? (
+                        <>
+                          <TableCell>
+                            <RecordThumbnail images={record.ecg} alt="ECG" />
+                          </TableCell>
+                          <TableCell>
+                            <RecordThumbnail images={record.laudo} alt="Laudo" />
+                          </TableCell>
+                          <TableCell className="max-w-md">
+                            <p className="line-clamp-3 whitespace-pre-line">{record.descricao}</p>
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {formatCreatedAt(record.created_at)}
+                          </TableCell>
+                        </>
+                      ) : (
+                        <TableCell colSpan={4} className="text-destructive">
+                          <p className="font-medium">Registro em formato inválido ({id})</p>
+                          <p className="text-xs line-clamp-2">{issues.join('; ')}</p>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {hasCredentials && (page > 0 || hasNextPage) && (
+              <Pagination>
+                <PaginationContent>
+                  <PaginationItem>
+                    <PaginationPrevious
+                      href="#"
+                      onClick={goToPreviousPage}
+                      aria-disabled={page === 0}
+                      className={page === 0 ? 'pointer-events-none opacity-50' : ''}
+                    />
+                  </PaginationItem>
+                  <PaginationItem>
+                    <PaginationLink href="#" isActive onClick={(e) => e.preventDefault()}>
+                      {page + 1}
+                    </PaginationLink>
+                  </PaginationItem>
+                  <PaginationItem>
+                    <PaginationNext
+                      href="#"
+                      onClick={goToNextPage}
+                      aria-disabled={!hasNextPage}
+                      className={!hasNextPage ? 'pointer-events-none opacity-50' : ''}
+                    />
+                  </PaginationItem>
+                </PaginationContent>
+              </Pagination>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Records;